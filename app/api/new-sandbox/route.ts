@@ -1,6 +1,11 @@
-import { Sandbox } from "@vercel/sandbox";
-import { AITool, getAIToolConfig, extractSessionIdFromResponse, getResumeCommand, getContinueCommand } from "@/lib/ai-tools-config";
-import { DEFAULT_SANDBOX_ALIVE_TIME_MS } from "@/lib/constants";
+import { isAITool, getAIToolConfig, extractSessionIdFromResponse, buildToolInvocation, parseToolOutput } from "@/lib/ai-tools-config";
+import { DEFAULT_SANDBOX_ALIVE_TIME_MS, DEFAULT_SANDBOX_PORTS, MAX_SANDBOX_PORTS } from "@/lib/constants";
+import { getSandboxProvider, SandboxInstance } from "@/lib/sandbox";
+import { loadCustomAgents } from "@/lib/custom-agents-loader";
+import { SETUP_STEP_EVENT_TYPE, SetupStepEvent, SetupStepId } from "@/lib/setup-steps";
+import { RepositoryInfo, RepositoryOptions, validateRepositoryOptions } from "@/lib/repository";
+import { cloneRepository } from "@/lib/sandbox/repository";
+import { importSessionState, MAX_SESSION_STATE_BYTES } from "@/lib/sandbox/session-state";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -15,10 +20,30 @@ export async function POST(request: Request) {
         controller.enqueue(encoder.encode(`data: ${json}\n\n`));
       };
 
+      // Structured progress for the setup UI, alongside the human-readable text
+      const stepStartTimes = new Map<SetupStepId, number>();
+      let currentStep: SetupStepId | null = null;
+      const sendSetupStep = (event: Omit<SetupStepEvent, 'durationMs'>) => {
+        if (event.status === 'in-progress') {
+          stepStartTimes.set(event.stepId, Date.now());
+          currentStep = event.stepId;
+        } else if (currentStep === event.stepId) {
+          currentStep = null;
+        }
+        const startedAt = stepStartTimes.get(event.stepId);
+        const step: SetupStepEvent = {
+          ...event,
+          durationMs: event.status !== 'in-progress' && startedAt ? Date.now() - startedAt : undefined,
+        };
+        sendMessage({ type: SETUP_STEP_EVENT_TYPE, data: step });
+      };
+
       const processRequest = async () => {
+        // Stopped if setup fails before the sandbox is handed to the client, so it doesn't run unused until it expires
+        let unfinishedSandbox: SandboxInstance | null = null;
         try {
           const body = await request.json();
-          const { apiKey, tool = "cursor-cli", sessionId, prompt = "hello", resumeSession = false, aliveTimeMinutes } = body;
+          const { apiKey, tool = "cursor-cli", sessionId, prompt = "hello", resumeSession = false, aliveTimeMinutes, ports = DEFAULT_SANDBOX_PORTS, repository, sessionState } = body;
 
           if (!apiKey || typeof apiKey !== "string") {
             sendMessage({
@@ -45,11 +70,54 @@ export async function POST(request: Request) {
             sandboxTimeoutMs = aliveTimeMinutes * 60 * 1000; // Convert minutes to milliseconds
           }
 
+          // Validate the ports to expose for previews
+          if (
+            !Array.isArray(ports) ||
+            ports.length > MAX_SANDBOX_PORTS ||
+            !ports.every((port) => Number.isInteger(port) && port >= 1 && port <= 65535)
+          ) {
+            sendMessage({
+              type: 'text-delta',
+              id: 'error',
+              delta: `❌ Ports must be a list of up to ${MAX_SANDBOX_PORTS} port numbers`
+            });
+            controller.close();
+            return;
+          }
+
+          // Validate the repository to clone, if any
+          if (repository !== undefined) {
+            const repositoryError =
+              !repository || typeof repository !== "object" || typeof repository.url !== "string"
+                ? "Repository URL is required"
+                : validateRepositoryOptions(repository as RepositoryOptions);
+            if (repositoryError) {
+              sendMessage({
+                type: 'text-delta',
+                id: 'error',
+                delta: `❌ ${repositoryError}`
+              });
+              controller.close();
+              return;
+            }
+          }
+
+          // Validate the session files exported from an earlier sandbox, if any
           if (
-            !tool ||
-            typeof tool !== "string" ||
-            !["claude-code", "cursor-cli"].includes(tool)
+            sessionState !== undefined &&
+            (typeof sessionState !== "string" || Math.floor(sessionState.length * 3 / 4) > MAX_SESSION_STATE_BYTES)
           ) {
+            sendMessage({
+              type: 'text-delta',
+              id: 'error',
+              delta: `❌ Session state must be a base64 archive of at most ${MAX_SESSION_STATE_BYTES / 1024} KB`
+            });
+            controller.close();
+            return;
+          }
+
+          await loadCustomAgents();
+          if (!isAITool(tool)) {
             sendMessage({
               type: 'text-delta',
               id: 'error',
@@ -59,7 +127,8 @@ export async function POST(request: Request) {
             return;
           }
 
-          const toolConfig = getAIToolConfig(tool as AITool);
+          const toolConfig = getAIToolConfig(tool);
+          const sandboxProvider = getSandboxProvider();
 
           // Stream task start
           sendMessage({
@@ -72,23 +141,73 @@ export async function POST(request: Request) {
           sendMessage({
             type: 'text-delta',
             id: 'setup-tasks',
-            delta: `### 🚀 Creating Vercel Sandbox\n\nInitializing sandbox environment...\n\n`
+            delta: `### 🚀 Creating ${sandboxProvider.displayName}\n\nInitializing sandbox environment...\n\n`
           });
+          sendSetupStep({ stepId: 'create-sandbox', status: 'in-progress', message: 'Creating sandbox environment...' });
 
-          console.log(`Creating Vercel sandbox with ${toolConfig.displayName}...`);
-          const createdSandbox = await Sandbox.create({
+          console.log(`Creating ${sandboxProvider.displayName} with ${toolConfig.displayName}...`);
+          const createdSandbox = await sandboxProvider.create({
             resources: { vcpus: 2 },
             runtime: "node22",
             timeout: sandboxTimeoutMs,
+            ports,
           });
 
           const id = createdSandbox.sandboxId;
+          unfinishedSandbox = createdSandbox;
           
           sendMessage({
             type: 'text-delta',
             id: 'setup-tasks',
             delta: `✅ **Sandbox created successfully** (ID: \`${id}\`)\n\n`
           });
+          sendSetupStep({ stepId: 'create-sandbox', status: 'completed', message: 'Sandbox created successfully' });
+
+          // Clone the repository into the working directory, where the agent runs
+          let repositoryInfo: Required<RepositoryInfo> | null = null;
+          if (repository) {
+            sendMessage({
+              type: 'text-delta',
+              id: 'setup-tasks',
+              delta: `### 📂 Cloning Repository\n\nCloning \`${repository.url}\`${repository.branch ? ` (branch \`${repository.branch}\`)` : ''}...\n\n`
+            });
+            sendSetupStep({ stepId: 'clone-repository', status: 'in-progress', message: 'Cloning repository...' });
+
+            console.log(`Cloning ${repository.url} into sandbox ${id}...`);
+            repositoryInfo = await cloneRepository(createdSandbox, repository);
+
+            sendMessage({
+              type: 'text-delta',
+              id: 'setup-tasks',
+              delta: `✅ **Repository cloned** (\`${repositoryInfo.branch}\` at \`${repositoryInfo.commit.slice(0, 7)}\`)\n\n`
+            });
+            sendSetupStep({ stepId: 'clone-repository', status: 'completed', message: `Checked out ${repositoryInfo.branch}` });
+          }
+
+          // Bring back the session files of the sandbox the session last ran in, so --resume finds them
+          if (resumeSession) {
+            sendMessage({
+              type: 'text-delta',
+              id: 'setup-tasks',
+              delta: `### 🗂️ Restoring Session\n\n${sessionState ? 'Copying session files from the previous sandbox...' : 'No saved session files, relying on what the sandbox has...'}\n\n`
+            });
+            sendSetupStep({ stepId: 'restore-session', status: 'in-progress', message: 'Restoring session files...' });
+
+            if (sessionState) {
+              console.log(`Restoring ${toolConfig.displayName} session state into sandbox ${id}...`);
+              await importSessionState(createdSandbox, sessionState, toolConfig.invocation.sudo);
+              sendMessage({
+                type: 'text-delta',
+                id: 'setup-tasks',
+                delta: `✅ **Session files restored**\n\n`
+              });
+            }
+            sendSetupStep({
+              stepId: 'restore-session',
+              status: 'completed',
+              message: sessionState ? 'Session files restored' : 'No saved session files',
+            });
+          }
 
           // Initialize verification results
           const verificationResults = {
@@ -115,6 +234,7 @@ export async function POST(request: Request) {
               id: 'setup-tasks',
               delta: `### 📦 Installing ${toolConfig.displayName}\n\nDownloading and configuring ${toolConfig.displayName}...\n\n`
             });
+            sendSetupStep({ stepId: 'install-tool', status: 'in-progress', message: `Installing ${toolConfig.displayName}...` });
 
             console.log(`Installing ${toolConfig.displayName}...`);
             const installResult = await createdSandbox.runCommand({
@@ -138,12 +258,15 @@ export async function POST(request: Request) {
                 id: 'setup-tasks',
                 delta: `✅ **${toolConfig.displayName} installed successfully**\n\n`
               });
+              sendSetupStep({ stepId: 'install-tool', status: 'completed', message: `${toolConfig.displayName} installed successfully` });
             } else {
               sendMessage({
                 type: 'text-delta',
                 id: 'setup-tasks',
                 delta: `⚠️ **Installation completed with warnings** (exit code: ${installResult.exitCode})\n\n`
               });
+              // The tool may already be on the image, so the connection test decides whether setup failed
+              sendSetupStep({ stepId: 'install-tool', status: 'completed', message: `Installation completed with warnings (exit code: ${installResult.exitCode})` });
             }
 
             // Step 3: Test AI tool
@@ -152,59 +275,18 @@ export async function POST(request: Request) {
               id: 'setup-tasks',
               delta: `### 🧪 Testing ${toolConfig.displayName} Connection\n\n${resumeSession ? 'Resuming previous session...' : 'Establishing new session...'}\n\n`
             });
+            sendSetupStep({ stepId: 'test-connection', status: 'in-progress', message: 'Processing your request...' });
 
             console.log(`Testing ${toolConfig.displayName} with prompt${resumeSession ? ' (resuming session)' : ''}...`);
 
-            let promptResult;
-            let commandArgs: string[];
-
-            if (resumeSession && sessionId) {
-              // Resume existing session
-              commandArgs = getResumeCommand(tool as AITool, sessionId);
-              commandArgs = [...commandArgs, '-p', prompt];
-            } else if (resumeSession && !sessionId) {
-              // Continue latest session
-              commandArgs = getContinueCommand(tool as AITool);
-              commandArgs = [...commandArgs, '-p', prompt];
-            } else {
-              // New session with prompt
-              commandArgs = [...toolConfig.verification.promptCommand.args];
-              commandArgs = commandArgs.map(arg => arg === 'hello' ? prompt : arg);
-            }
-
-            if (tool === "claude-code") {
-              // For Claude Code, use npx with environment variable (no sudo for prompts)
-              // Properly escape the prompt to handle URLs and special characters
-              const escapedArgs = commandArgs.map(arg => {
-                // If this arg is the prompt (contains special characters), quote it properly
-                if (arg === prompt) {
-                  return JSON.stringify(arg);
-                }
-                return arg;
-              });
-              
-              promptResult = await createdSandbox.runCommand({
-                cmd: "bash",
-                args: [
-                  "-c",
-                  `export ${
-                    toolConfig.apiKeyEnvVar
-                  }="${apiKey}" && npx @anthropic-ai/claude-code ${escapedArgs.join(" ")}`,
-                ],
-                sudo: false,
-              });
-            } else {
-              // For cursor-cli, use direct execution with API key flag
-              const finalArgs = commandArgs.map(
-                (arg) => (arg === "CURSOR_API_KEY_PLACEHOLDER" ? apiKey : arg)
-              );
-
-              promptResult = await createdSandbox.runCommand({
-                cmd: "cursor-agent",
-                args: finalArgs,
-                sudo: true,
-              });
-            }
+            const promptResult = await createdSandbox.runCommand(
+              buildToolInvocation(tool, {
+                apiKey,
+                prompt,
+                sessionId: resumeSession ? sessionId : null,
+                continueSession: resumeSession,
+              })
+            );
 
             const promptOutput = await promptResult.stdout();
             const promptError = await promptResult.stderr();
@@ -213,14 +295,14 @@ export async function POST(request: Request) {
             let parsedOutput = null;
             if (promptOutput) {
               try {
-                parsedOutput = JSON.parse(promptOutput);
+                parsedOutput = parseToolOutput(tool, promptOutput);
                 console.log(
                   `${toolConfig.displayName} PARSED JSON:`,
                   JSON.stringify(parsedOutput, null, 2)
                 );
                 
                 // Extract session ID from response
-                extractedSessionId = extractSessionIdFromResponse(tool as AITool, parsedOutput);
+                extractedSessionId = extractSessionIdFromResponse(tool, parsedOutput);
                 if (extractedSessionId) {
                   console.log(`${toolConfig.displayName} SESSION ID:`, extractedSessionId);
                 }
@@ -244,7 +326,7 @@ export async function POST(request: Request) {
                 stdout: promptOutput || "",
                 stderr: promptError || "",
                 exitCode: promptResult.exitCode,
-                parsedJson: parsedOutput,
+                parsedJson: parsedOutput ?? undefined,
                 ...(extractedSessionId && { sessionId: extractedSessionId }),
               };
 
@@ -253,6 +335,7 @@ export async function POST(request: Request) {
                 id: 'setup-tasks',
                 delta: `✅ **${toolConfig.displayName} is working perfectly!**\n\n🔗 Tested with prompt: "${prompt}"\n\n`
               });
+              sendSetupStep({ stepId: 'test-connection', status: 'completed', message: 'Request processed successfully' });
             } else {
               verificationResults.cursorCLI.installed = false;
               verificationResults.cursorCLI.error = `${
@@ -267,6 +350,12 @@ export async function POST(request: Request) {
                 id: 'setup-tasks',
                 delta: `❌ **${toolConfig.displayName} test failed** (exit code: ${promptResult.exitCode})\n\n`
               });
+              sendSetupStep({
+                stepId: 'test-connection',
+                status: 'failed',
+                message: 'Request processing failed',
+                error: verificationResults.cursorCLI.error,
+              });
             }
           } catch (error) {
             console.error(
@@ -283,6 +372,9 @@ export async function POST(request: Request) {
               id: 'setup-tasks',
               delta: `❌ **Error during setup**: ${error instanceof Error ? error.message : String(error)}\n\n`
             });
+            if (currentStep) {
+              sendSetupStep({ stepId: currentStep, status: 'failed', message: 'Setup step failed', error: verificationResults.cursorCLI.error });
+            }
           }
 
           // Step 4: Completion
@@ -290,8 +382,10 @@ export async function POST(request: Request) {
             id,
             createdAt: new Date().toISOString(),
             timeoutMs: sandboxTimeoutMs,
+            ports,
+            ...(repositoryInfo && { repository: repositoryInfo }),
             cursorCLI: verificationResults,
-            provider: "vercel",
+            provider: sandboxProvider.name,
             tool: tool,
             toolName: toolConfig.displayName,
             initialPrompt: prompt,
@@ -309,6 +403,7 @@ export async function POST(request: Request) {
           });
 
           // Send the sandbox info as data
+          unfinishedSandbox = null;
           sendMessage({
             type: 'data',
             id: 'sandbox-info',
@@ -326,6 +421,17 @@ export async function POST(request: Request) {
             id: 'error',
             delta: `❌ **Setup failed**: ${message}\n\nPlease try again or check your API key.`
           });
+          if (currentStep) {
+            sendSetupStep({ stepId: currentStep, status: 'failed', message: 'Setup failed', error: message });
+          }
+
+          if (unfinishedSandbox) {
+            const sandboxId = unfinishedSandbox.sandboxId;
+            console.log(`Stopping sandbox ${sandboxId} after failed setup...`);
+            await unfinishedSandbox.stop().catch((stopError: unknown) => {
+              console.error(`Failed to stop sandbox ${sandboxId}:`, stopError);
+            });
+          }
 
           sendMessage({
             type: 'data',
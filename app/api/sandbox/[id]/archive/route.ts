@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSandboxProvider } from "@/lib/sandbox";
+import { ARCHIVE_CONTENT_TYPES, ArchiveFormat, createArchive, removeArchive } from "@/lib/sandbox/archive";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// RFC 6266 attachment header: filename* carries the UTF-8 name (RFC 5987), and filename an
+// ASCII fallback for clients that don't read it
+function contentDisposition(fileName: string): string {
+  const fallback = fileName.replace(/[^\x20-\x7e]/g, "_").replace(/["\\]/g, "");
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, (char) => `%${char.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+// Download a directory of the sandbox (the working directory by default) as a tar.gz or zip
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const dirPath = request.nextUrl.searchParams.get("path") || ".";
+    const format = request.nextUrl.searchParams.get("format") || "tar.gz";
+
+    if (!Object.hasOwn(ARCHIVE_CONTENT_TYPES, format)) {
+      return NextResponse.json(
+        { success: false, error: `Format must be one of: ${Object.keys(ARCHIVE_CONTENT_TYPES).join(", ")}` },
+        { status: 400 }
+      );
+    }
+
+    const sandbox = await getSandboxProvider().get(id);
+    const archive = await createArchive(sandbox, dirPath, format as ArchiveFormat);
+    if (!archive) {
+      return NextResponse.json(
+        { success: false, error: `No such directory: ${dirPath}` },
+        { status: 404 }
+      );
+    }
+
+    const stream = await sandbox.readFile({ path: archive.path });
+    if (!stream) {
+      throw new Error("Archive was not created");
+    }
+
+    // Remove the archive from the sandbox once it has been sent, or the download is abandoned
+    const cleanup = () => {
+      removeArchive(sandbox, archive).catch((error) => {
+        console.warn(`Failed to remove archive ${archive.path}:`, error);
+      });
+    };
+    const chunks = stream[Symbol.asyncIterator]();
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { done, value } = await chunks.next();
+          if (done) {
+            controller.close();
+            cleanup();
+          } else {
+            controller.enqueue(typeof value === "string" ? Buffer.from(value) : value);
+          }
+        } catch (error) {
+          controller.error(error);
+          cleanup();
+        }
+      },
+      cancel() {
+        cleanup();
+      },
+    });
+
+    console.log(`Streaming archive of ${dirPath} from sandbox ${id}`);
+    return new Response(body, {
+      headers: {
+        "Content-Type": ARCHIVE_CONTENT_TYPES[format as ArchiveFormat],
+        "Content-Disposition": contentDisposition(archive.fileName),
+        "Cache-Control": "no-cache",
+      },
+    });
+  } catch (error: unknown) {
+    console.error("Error archiving sandbox files:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to archive sandbox files";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
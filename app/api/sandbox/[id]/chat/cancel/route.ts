@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { getSandboxProvider } from "@/lib/sandbox";
+import { isRecordedCommand } from "@/lib/sandbox/recorded-commands";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { cmdId } = await request.json();
+
+    if (!cmdId || typeof cmdId !== "string") {
+      return NextResponse.json(
+        { success: false, error: "Command ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const sandbox = await getSandboxProvider().get(id);
+    // Only an agent turn started by the chat route can be cancelled here
+    if (!(await isRecordedCommand(sandbox, "agent", cmdId))) {
+      return NextResponse.json(
+        { success: false, error: `Agent command ${cmdId} not found` },
+        { status: 404 }
+      );
+    }
+
+    console.log(`Cancelling command ${cmdId} in sandbox ${id}`);
+    await sandbox.killCommand(cmdId);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error cancelling agent turn:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to cancel agent turn";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
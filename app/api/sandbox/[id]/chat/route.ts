@@ -1,11 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
-import { Sandbox } from "@vercel/sandbox";
-import { getAIToolConfig, extractSessionIdFromResponse, getResumeCommand, getContinueCommand } from "@/lib/ai-tools-config";
+import { getSandboxProvider } from "@/lib/sandbox";
+import { loadCustomAgents } from "@/lib/custom-agents-loader";
+import { isAITool, getAIToolConfig, extractSessionIdFromResponse, extractResultFromResponse, buildToolInvocation, parseToolOutput, ToolResultMetadata, ToolCallData, ReasoningData } from "@/lib/ai-tools-config";
+import { diffFileSnapshots, takeFileSnapshot } from "@/lib/sandbox/file-changes";
+import { recordCommand } from "@/lib/sandbox/recorded-commands";
 import { createUIMessageStreamResponse, createUIMessageStream } from "ai";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+// Keep large file reads and command logs from bloating the transcript
+const MAX_TOOL_OUTPUT_LENGTH = 10000;
+
+const truncateOutput = (output: string) =>
+  output.length > MAX_TOOL_OUTPUT_LENGTH
+    ? `${output.slice(0, MAX_TOOL_OUTPUT_LENGTH)}\n… (${output.length - MAX_TOOL_OUTPUT_LENGTH} more characters)`
+    : output;
+
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -17,7 +28,8 @@ export async function POST(
 
     console.log("Chat API request:", { sandboxId, tool, sessionId, messagesCount: messages?.length || 0 });
 
-    if (!tool || !["claude-code", "cursor-cli"].includes(tool)) {
+    await loadCustomAgents();
+    if (!isAITool(tool)) {
       return NextResponse.json(
         { error: "Valid AI tool is required" },
         { status: 400 }
@@ -54,7 +66,7 @@ export async function POST(
     // Connect to existing sandbox
     let sandbox;
     try {
-      sandbox = await Sandbox.get({ sandboxId });
+      sandbox = await getSandboxProvider().get(sandboxId);
       console.log(`Connected to sandbox: ${sandboxId}`);
     } catch (sandboxError) {
       console.error(`Failed to connect to sandbox ${sandboxId}:`, sandboxError);
@@ -64,90 +76,87 @@ export async function POST(
       );
     }
 
-    // Prepare command arguments
-    let commandArgs: string[];
-    
-    if (sessionId) {
-      // Resume with specific session
-      commandArgs = getResumeCommand(tool, sessionId);
-      commandArgs = [...commandArgs, '-p', prompt];
-      console.log(`Resuming session ${sessionId} with command:`, commandArgs);
-    } else {
-      // Continue latest session or create new one
-      commandArgs = getContinueCommand(tool);
-      commandArgs = [...commandArgs, '-p', prompt];
-      console.log(`Continuing session with command:`, commandArgs);
-    }
+    // Snapshot the working directory so the files changed by this turn can be reported
+    const snapshotBefore = await takeFileSnapshot(sandbox).catch((error) => {
+      console.warn("Failed to snapshot sandbox files:", error);
+      return null;
+    });
 
-    let promptResult;
-    
-    if (tool === "claude-code") {
-      // For Claude Code, use npx with environment variable
-      // Properly escape command arguments for bash
-      const escapedArgs = commandArgs.map(arg => {
-        // If argument contains spaces or special characters, wrap in single quotes
-        if (arg.includes(' ') || arg.includes('"') || arg.includes("'") || arg.includes('&') || arg.includes('|')) {
-          return `'${arg.replace(/'/g, "'\"'\"'")}'`; // Escape single quotes within the string
-        }
-        return arg;
-      }).join(" ");
-      
-      promptResult = await sandbox.runCommand({
-        cmd: "bash",
-        args: [
-          "-c",
-          `export ${toolConfig.apiKeyEnvVar}="${apiKey}" && npx @anthropic-ai/claude-code ${escapedArgs}`,
-        ],
-        sudo: false,
-      });
-    } else {
-      // For cursor-cli, use direct execution with API key flag
-      const finalArgs = commandArgs.map(
-        (arg) => (arg === "CURSOR_API_KEY_PLACEHOLDER" ? apiKey : arg)
-      );
+    // Resume with specific session, or continue latest session / create new one
+    console.log(sessionId ? `Resuming session ${sessionId}` : "Continuing latest session");
+    const parseEvent = toolConfig.invocation.streaming?.parseEvent;
+    const command = await sandbox.runDetachedCommand(
+      buildToolInvocation(tool, {
+        apiKey,
+        prompt,
+        sessionId,
+        continueSession: true,
+        stream: true,
+      })
+    );
 
-      promptResult = await sandbox.runCommand({
-        cmd: "cursor-agent",
-        args: finalArgs,
-        sudo: false,
-      });
-    }
+    // Stop the agent when the client goes away, e.g. after the Stop button aborts the request
+    request.signal.addEventListener("abort", () => {
+      command.kill().catch((error) => console.warn(`Failed to stop ${toolConfig.displayName}:`, error));
+    });
+    // Only recorded commands can be cancelled through /chat/cancel
+    await recordCommand(sandbox, "agent", command.cmdId).catch((error) => {
+      console.warn("Failed to record the agent command:", error);
+    });
 
-    const promptOutput = await promptResult.stdout();
-    const promptError = await promptResult.stderr();
+    const stream = createUIMessageStream({
+      async execute({ writer }) {
+        // Lets the client cancel this turn through /chat/cancel
+        writer.write({ type: 'data-agent-command', data: { cmdId: command.cmdId }, transient: true });
 
-    console.log(`${toolConfig.displayName} response - exitCode: ${promptResult.exitCode}, output length: ${promptOutput?.length || 0}`);
+        const writeFileChanges = async () => {
+          if (!snapshotBefore) return;
+          try {
+            const snapshotAfter = await takeFileSnapshot(sandbox);
+            if (!snapshotAfter) return;
+            const fileChanges = await diffFileSnapshots(sandbox, snapshotBefore, snapshotAfter);
+            if (fileChanges.changes.length > 0) {
+              writer.write({ type: 'data-file-changes', data: fileChanges });
+            }
+          } catch (error) {
+            console.warn("Failed to diff sandbox files:", error);
+          }
+        };
 
-    if (promptResult.exitCode !== 0) {
-      console.error(`${toolConfig.displayName} error:`, promptError || promptOutput);
-      return NextResponse.json(
-        { error: `AI tool error: ${promptError || promptOutput || 'Unknown error'}` },
-        { status: 500 }
-      );
-    }
+        if (!parseEvent) {
+          // Tools without an event stream answer once the command finishes
+          const promptResult = await command.wait();
+          if (request.signal.aborted) return;
 
-    // Parse JSON response
-    let parsedOutput = null;
-    let extractedSessionId = null;
-    
-    if (promptOutput) {
-      try {
-        parsedOutput = JSON.parse(promptOutput);
-        extractedSessionId = extractSessionIdFromResponse(tool, parsedOutput);
-        
-        console.log(`${toolConfig.displayName} session ID:`, extractedSessionId);
-      } catch (parseError) {
-        console.error(`Failed to parse ${toolConfig.displayName} output:`, parseError);
-        
-        // Return raw output as AI SDK compatible stream
-        const stream = createUIMessageStream({
-          execute({ writer }) {
+          const promptOutput = await promptResult.stdout();
+          const promptError = await promptResult.stderr();
+
+          console.log(`${toolConfig.displayName} response - exitCode: ${promptResult.exitCode}, output length: ${promptOutput?.length || 0}`);
+
+          if (promptResult.exitCode !== 0) {
+            console.error(`${toolConfig.displayName} error:`, promptError || promptOutput);
+            throw new Error(`AI tool error: ${promptError || promptOutput || 'Unknown error'}`);
+          }
+
+          let parsedOutput = null;
+          let extractedSessionId = null;
+          try {
+            parsedOutput = parseToolOutput(tool, promptOutput);
+            extractedSessionId = extractSessionIdFromResponse(tool, parsedOutput);
+            console.log(`${toolConfig.displayName} session ID:`, extractedSessionId);
+          } catch (parseError) {
+            console.error(`Failed to parse ${toolConfig.displayName} output:`, parseError);
+
+            // Return raw output
+            writer.write({ type: 'text-start', id: 'error-chunk' });
             writer.write({
               type: 'text-delta',
               id: 'error-chunk',
               delta: promptOutput || "No response received"
             });
+            writer.write({ type: 'text-end', id: 'error-chunk' });
 
+            await writeFileChanges();
             writer.write({
               type: 'data-error-metadata',
               data: {
@@ -156,28 +165,18 @@ export async function POST(
                 exitCode: promptResult.exitCode
               }
             });
+            return;
           }
-        });
 
-        return createUIMessageStreamResponse({ stream });
-      }
-    }
-
-    // Convert sandbox response to AI SDK UIMessage format
-    const responseContent = parsedOutput?.result || promptOutput || "No response";
-    
-    // Create AI SDK compatible stream
-    const stream = createUIMessageStream({
-      execute({ writer }) {
-        // Write the main text response
-        writer.write({
-          type: 'text-delta',
-          id: 'text-chunk',
-          delta: responseContent
-        });
+          writer.write({ type: 'text-start', id: 'text-chunk' });
+          writer.write({
+            type: 'text-delta',
+            id: 'text-chunk',
+            delta: extractResultFromResponse(tool, parsedOutput) || promptOutput || "No response"
+          });
+          writer.write({ type: 'text-end', id: 'text-chunk' });
 
-        // Write metadata as data part
-        if (extractedSessionId || parsedOutput) {
+          await writeFileChanges();
           writer.write({
             type: 'data-session-metadata',
             data: {
@@ -189,8 +188,143 @@ export async function POST(
               exitCode: promptResult.exitCode
             }
           });
+          return;
         }
-      }
+
+        let extractedSessionId: string | null = null;
+        let metadata: ToolResultMetadata = {};
+        let errorMessage: string | null = null;
+        let textStarted = false;
+        let separateNextBlock = false;
+        const toolCalls = new Map<string, ToolCallData>();
+        let reasoningCount = 0;
+        let reasoningStartedAt: number | null = null;
+        let lastEventAt = Date.now();
+
+        // Data parts with the same id replace each other, so a tool card updates in place
+        const writeToolCall = (toolCall: ToolCallData) => {
+          toolCalls.set(toolCall.toolCallId, toolCall);
+          writer.write({ type: 'data-tool-call', id: toolCall.toolCallId, data: toolCall });
+        };
+
+        const writeText = (delta: string) => {
+          if (!textStarted) {
+            writer.write({ type: 'text-start', id: 'text-chunk' });
+            textStarted = true;
+          } else if (separateNextBlock) {
+            writer.write({ type: 'text-delta', id: 'text-chunk', delta: "\n\n" });
+          }
+          separateNextBlock = false;
+          writer.write({ type: 'text-delta', id: 'text-chunk', delta });
+        };
+
+        const handleLine = (line: string) => {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith("{")) return;
+
+          let event: Record<string, unknown>;
+          try {
+            event = JSON.parse(trimmed);
+          } catch {
+            console.warn(`Skipping malformed ${toolConfig.displayName} event:`, trimmed);
+            return;
+          }
+
+          for (const update of parseEvent(event)) {
+            if (update.type === 'session') {
+              extractedSessionId = update.sessionId;
+              // Sent early so the session stays resumable if the turn is cancelled
+              writer.write({ type: 'data-session-metadata', data: { sessionId: update.sessionId, tool } });
+            } else if (update.type === 'text-start') {
+              separateNextBlock = textStarted;
+            } else if (update.type === 'text-delta') {
+              writeText(update.delta);
+            } else if (update.type === 'tool-call') {
+              const existing = toolCalls.get(update.toolCallId);
+              writeToolCall({
+                ...existing,
+                toolCallId: update.toolCallId,
+                name: update.name,
+                input: update.input,
+                state: existing?.state ?? 'input-available',
+              });
+              separateNextBlock = textStarted;
+            } else if (update.type === 'tool-result') {
+              const existing = toolCalls.get(update.toolCallId);
+              writeToolCall({
+                toolCallId: update.toolCallId,
+                name: existing?.name ?? 'tool',
+                input: existing?.input,
+                state: update.isError ? 'output-error' : 'output-available',
+                output: update.isError ? undefined : truncateOutput(update.output),
+                errorText: update.isError ? truncateOutput(update.output) || 'Tool call failed' : undefined,
+              });
+            } else if (update.type === 'reasoning-start') {
+              reasoningStartedAt = Date.now();
+            } else if (update.type === 'reasoning') {
+              // Without an explicit start, the agent was thinking since its previous event
+              const startedAt = reasoningStartedAt ?? lastEventAt;
+              const data: ReasoningData = {
+                text: update.text,
+                duration: Math.max(1, Math.round((Date.now() - startedAt) / 1000)),
+              };
+              writer.write({ type: 'data-reasoning', id: `reasoning-${reasoningCount++}`, data });
+              reasoningStartedAt = null;
+              separateNextBlock = textStarted;
+            } else if (update.type === 'result') {
+              // Some tools only report the final answer in the result event
+              if (!textStarted && update.result) writeText(update.result);
+              if (update.sessionId) extractedSessionId = update.sessionId;
+              metadata = { ...metadata, ...update.metadata };
+            } else {
+              errorMessage = update.message;
+            }
+          }
+          lastEventAt = Date.now();
+        };
+
+        // Logs arrive in arbitrary chunks, so split them back into JSON lines
+        let buffer = "";
+        for await (const log of command.logs()) {
+          if (log.stream !== "stdout") continue;
+          buffer += log.data;
+          const lines = buffer.split("\n");
+          buffer = lines.pop() ?? "";
+          lines.forEach(handleLine);
+        }
+        handleLine(buffer);
+
+        const promptResult = await command.wait();
+        console.log(`${toolConfig.displayName} response - exitCode: ${promptResult.exitCode}, session ID: ${extractedSessionId}`);
+
+        if (request.signal.aborted) {
+          console.log(`${toolConfig.displayName} turn cancelled`);
+          return;
+        }
+
+        if (!textStarted && (promptResult.exitCode !== 0 || errorMessage)) {
+          const promptError = await promptResult.stderr();
+          console.error(`${toolConfig.displayName} error:`, errorMessage || promptError);
+          throw new Error(`AI tool error: ${errorMessage || promptError || 'Unknown error'}`);
+        }
+
+        if (!textStarted && toolCalls.size === 0) writeText("No response");
+        if (textStarted) writer.write({ type: 'text-end', id: 'text-chunk' });
+
+        await writeFileChanges();
+        writer.write({
+          type: 'data-session-metadata',
+          data: {
+            sessionId: extractedSessionId,
+            tool,
+            duration_ms: metadata.duration_ms,
+            total_cost_usd: metadata.total_cost_usd,
+            usage: metadata.usage,
+            exitCode: promptResult.exitCode
+          }
+        });
+      },
+      onError: (error) => (error instanceof Error ? error.message : "Failed to process chat"),
     });
 
     return createUIMessageStreamResponse({ stream });
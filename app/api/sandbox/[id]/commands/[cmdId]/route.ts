@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server";
+import { getSandboxProvider } from "@/lib/sandbox";
+import { isBackgroundProcess } from "@/lib/sandbox/processes";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteParams = { params: Promise<{ id: string; cmdId: string }> };
+
+function processNotFound(cmdId: string) {
+  return NextResponse.json(
+    { success: false, error: `Background process ${cmdId} not found` },
+    { status: 404 }
+  );
+}
+
+// Stream a background process's output as SSE, starting from its first kept line
+export async function GET(request: Request, { params }: RouteParams) {
+  const { id, cmdId } = await params;
+
+  let command;
+  try {
+    const sandbox = await getSandboxProvider().get(id);
+    // Other commands, e.g. the agent with its API key in the args, aren't exposed here
+    if (!(await isBackgroundProcess(sandbox, cmdId))) {
+      return processNotFound(cmdId);
+    }
+    command = await sandbox.getCommand(cmdId);
+  } catch (error) {
+    console.error(`Failed to attach to command ${cmdId}:`, error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Command not found" },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const sendMessage = (data: Record<string, unknown>) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        for await (const log of command.logs()) {
+          if (request.signal.aborted) break;
+          sendMessage({ type: "output", stream: log.stream, data: log.data });
+        }
+        if (!request.signal.aborted) {
+          const result = await command.wait();
+          sendMessage({ type: "exit", exitCode: result.exitCode });
+        }
+      } catch (error) {
+        console.error(`Command stream ${cmdId} failed:`, error);
+        if (!request.signal.aborted) {
+          sendMessage({ type: "error", error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      if (!request.signal.aborted) controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+// Kill a background process
+export async function DELETE(request: Request, { params }: RouteParams) {
+  try {
+    const { id, cmdId } = await params;
+
+    const sandbox = await getSandboxProvider().get(id);
+    if (!(await isBackgroundProcess(sandbox, cmdId))) {
+      return processNotFound(cmdId);
+    }
+
+    console.log(`Killing command ${cmdId} in sandbox ${id}`);
+    await sandbox.killCommand(cmdId);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error killing command:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to kill command";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
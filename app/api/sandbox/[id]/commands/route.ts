@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { getSandboxProvider } from "@/lib/sandbox";
+import { listBackgroundProcesses, startBackgroundProcess } from "@/lib/sandbox/processes";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteParams = { params: Promise<{ id: string }> };
+
+// List the background processes started in this sandbox
+export async function GET(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const sandbox = await getSandboxProvider().get(id);
+    const processes = await listBackgroundProcesses(sandbox);
+
+    return NextResponse.json({ success: true, processes }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error listing background processes:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to list background processes";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
+
+// Start a command in the background, e.g. a dev server; its output is read from /commands/[cmdId]
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id } = await params;
+    const { command } = await request.json();
+
+    if (!command || typeof command !== "string" || !command.trim()) {
+      return NextResponse.json(
+        { success: false, error: "Command is required" },
+        { status: 400 }
+      );
+    }
+
+    const sandbox = await getSandboxProvider().get(id);
+    const backgroundProcess = await startBackgroundProcess(sandbox, command.trim());
+
+    console.log(`Started background command ${backgroundProcess.cmdId} in sandbox ${id}: ${backgroundProcess.command}`);
+    return NextResponse.json({ success: true, process: backgroundProcess }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error starting background command:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to start background command";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSandboxProvider } from "@/lib/sandbox";
+import {
+  MAX_FILE_SIZE_BYTES,
+  isBinaryContent,
+  readSandboxFile,
+  statSandboxPath,
+} from "@/lib/sandbox/files";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function notFound(filePath: string) {
+  return NextResponse.json(
+    { success: false, error: `No such file or directory: ${filePath}` },
+    { status: 404 }
+  );
+}
+
+// List a directory, or read a file as text (binary files are reported without content)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const filePath = request.nextUrl.searchParams.get("path") || ".";
+
+    const sandbox = await getSandboxProvider().get(id);
+    const info = await statSandboxPath(sandbox, filePath);
+    if (!info) {
+      return notFound(filePath);
+    }
+    if (info.type === "directory") {
+      return NextResponse.json({ success: true, ...info }, { status: 200 });
+    }
+
+    if (info.size > MAX_FILE_SIZE_BYTES) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `File is too large to display (${Math.ceil(info.size / 1024)} KB, limit ${MAX_FILE_SIZE_BYTES / 1024} KB)`,
+        },
+        { status: 413 }
+      );
+    }
+
+    const content = await readSandboxFile(sandbox, filePath);
+    if (!content) {
+      return notFound(filePath);
+    }
+    const binary = isBinaryContent(content);
+
+    return NextResponse.json(
+      {
+        success: true,
+        ...info,
+        size: content.length,
+        binary,
+        content: binary ? null : content.toString("utf8"),
+      },
+      { status: 200 }
+    );
+  } catch (error: unknown) {
+    console.error("Error reading sandbox files:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to read sandbox files";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
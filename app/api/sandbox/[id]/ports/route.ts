@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { getSandboxProvider } from "@/lib/sandbox";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Public URLs of the ports exposed when the sandbox was created
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const sandbox = await getSandboxProvider().get(id);
+    const ports = await sandbox.getPorts();
+
+    return NextResponse.json({ success: true, ports }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error listing sandbox ports:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to list sandbox ports";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
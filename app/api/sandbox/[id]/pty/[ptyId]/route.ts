@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSandboxProvider } from "@/lib/sandbox";
+import { closePty, isPtyCommand, isValidPtyId, parsePtySize, resizePty, writePty } from "@/lib/sandbox/pty";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+type RouteParams = { params: Promise<{ id: string; ptyId: string }> };
+
+function invalidRequest(error: string) {
+  return NextResponse.json({ success: false, error }, { status: 400 });
+}
+
+const PTY_REQUEST_ERRORS = {
+  "not-found": { error: "Terminal not found", status: 404 },
+  exited: { error: "Terminal session has ended", status: 410 },
+};
+
+// Stream the terminal output as SSE, starting from the beginning of the session
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  const { id, ptyId } = await params;
+  const cmdId = request.nextUrl.searchParams.get("cmdId");
+  if (!isValidPtyId(ptyId) || !cmdId) {
+    return invalidRequest("Terminal and command IDs are required");
+  }
+
+  let command;
+  try {
+    const sandbox = await getSandboxProvider().get(id);
+    // Only the terminal's own process can be attached to, not any command of the sandbox
+    if (!(await isPtyCommand(sandbox, { ptyId, cmdId }))) {
+      throw new Error(`Terminal ${ptyId} not found`);
+    }
+    command = await sandbox.getCommand(cmdId);
+  } catch (error) {
+    console.error(`Failed to attach to terminal ${cmdId}:`, error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "Terminal not found" },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const sendMessage = (data: Record<string, unknown>) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(data)}\n\n`));
+      };
+
+      try {
+        for await (const log of command.logs()) {
+          if (request.signal.aborted) break;
+          sendMessage({ type: "output", data: log.data });
+        }
+        if (!request.signal.aborted) {
+          const result = await command.wait();
+          sendMessage({ type: "exit", exitCode: result.exitCode });
+        }
+      } catch (error) {
+        console.error(`Terminal stream ${cmdId} failed:`, error);
+        if (!request.signal.aborted) {
+          sendMessage({ type: "error", error: error instanceof Error ? error.message : String(error) });
+        }
+      }
+
+      if (!request.signal.aborted) controller.close();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
+
+// Send keystrokes ({ type: "input", cmdId, data }) or a new window size ({ type: "resize", cmdId, cols, rows })
+export async function POST(request: Request, { params }: RouteParams) {
+  try {
+    const { id, ptyId } = await params;
+    const body = await request.json();
+    if (!isValidPtyId(ptyId) || typeof body.cmdId !== "string" || !body.cmdId) {
+      return invalidRequest("Terminal and command IDs are required");
+    }
+    const session = { ptyId, cmdId: body.cmdId };
+
+    let result;
+    if (body.type === "input") {
+      if (typeof body.data !== "string" || !body.data) {
+        return invalidRequest("Input data is required");
+      }
+      const sandbox = await getSandboxProvider().get(id);
+      result = await writePty(sandbox, session, body.data);
+    } else if (body.type === "resize") {
+      let size;
+      try {
+        size = parsePtySize(body);
+      } catch (error) {
+        return invalidRequest(error instanceof Error ? error.message : "Invalid terminal size");
+      }
+      const sandbox = await getSandboxProvider().get(id);
+      result = await resizePty(sandbox, session, size);
+    } else {
+      return invalidRequest("Unknown terminal request type");
+    }
+
+    if (result !== "ok") {
+      const { error, status } = PTY_REQUEST_ERRORS[result];
+      return NextResponse.json({ success: false, error }, { status });
+    }
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error writing to terminal:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to write to terminal";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    const { id, ptyId } = await params;
+    const cmdId = request.nextUrl.searchParams.get("cmdId");
+    if (!isValidPtyId(ptyId) || !cmdId) {
+      return invalidRequest("Terminal and command IDs are required");
+    }
+
+    const sandbox = await getSandboxProvider().get(id);
+    await closePty(sandbox, { ptyId, cmdId });
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error closing terminal:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to close terminal";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
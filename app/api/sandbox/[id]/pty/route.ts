@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server";
+import { getSandboxProvider } from "@/lib/sandbox";
+import { parsePtySize, startPty } from "@/lib/sandbox/pty";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Start an interactive shell; its output is read from /pty/[ptyId]
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const body = await request.json();
+
+    let size;
+    try {
+      size = parsePtySize(body);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : "Invalid terminal size" },
+        { status: 400 }
+      );
+    }
+
+    const sandbox = await getSandboxProvider().get(id);
+    const session = await startPty(sandbox, size);
+
+    console.log(`Started terminal ${session.ptyId} in sandbox ${id}`);
+    return NextResponse.json({ success: true, ...session }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error starting terminal:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to start terminal";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
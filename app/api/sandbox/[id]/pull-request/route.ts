@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+import { getSandboxProvider } from "@/lib/sandbox";
+import { commitAndPush, getOriginUrl } from "@/lib/sandbox/repository";
+import { getGitHostClient } from "@/lib/git-hosts";
+import { isValidBranchName, validateRepositoryOptions } from "@/lib/repository";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+function validatePullRequest(fields: Record<string, unknown>): string | null {
+  const { baseBranch, branch, title, token } = fields;
+  if (typeof baseBranch !== "string" || !isValidBranchName(baseBranch)) {
+    return `Invalid base branch name: ${baseBranch}`;
+  }
+  if (typeof branch !== "string" || !isValidBranchName(branch)) {
+    return `Invalid branch name: ${branch}`;
+  }
+  if (branch === baseBranch) {
+    return "Choose a new branch for the changes";
+  }
+  if (typeof title !== "string" || !title.trim()) {
+    return "Pull request title is required";
+  }
+  if (typeof token !== "string" || !token.trim()) {
+    return "Access token is required";
+  }
+  return null;
+}
+
+// Commit the working directory's changes on a new branch, push it and open a pull request
+// into the branch the repository was cloned from. The pull request goes to the sandbox's origin,
+// where the branch is pushed, whatever repository the client thinks it came from.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { baseBranch, branch, title, body, token } = await request.json();
+
+    const validationError = validatePullRequest({ baseBranch, branch, title, token });
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const sandbox = await getSandboxProvider().get(id);
+    const repositoryUrl = await getOriginUrl(sandbox);
+    const repositoryError = validateRepositoryOptions({ url: repositoryUrl, token: token.trim() });
+    if (repositoryError) {
+      return NextResponse.json(
+        { success: false, error: `Can't push to ${repositoryUrl}: ${repositoryError}` },
+        { status: 400 }
+      );
+    }
+
+    // Resolve the host first, so nothing is pushed for a repository we can't open a pull request on
+    const gitHost = getGitHostClient(repositoryUrl);
+
+    console.log(`Pushing changes in sandbox ${id} to branch ${branch}...`);
+    const commit = await commitAndPush(sandbox, { baseBranch, branch, message: title.trim(), token: token.trim() });
+    if (!commit) {
+      return NextResponse.json(
+        { success: false, error: "There are no changes to commit" },
+        { status: 400 }
+      );
+    }
+
+    let pullRequest;
+    try {
+      pullRequest = await gitHost.createPullRequest({
+        repositoryUrl,
+        sourceBranch: branch,
+        targetBranch: baseBranch,
+        title: title.trim(),
+        body: typeof body === "string" ? body : undefined,
+        token: token.trim(),
+      });
+    } catch (error: unknown) {
+      // Submitting again with the same branch reuses the pushed commit
+      console.error(`Pushed ${commit} to ${branch}, but opening the pull request failed:`, error);
+      const message = error instanceof Error ? error.message : "Failed to create pull request";
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Pushed the changes to ${branch}, but opening the pull request failed: ${message}`,
+          pushed: { branch, commit },
+        },
+        { status: 502 }
+      );
+    }
+    console.log(`Opened ${gitHost.displayName} pull request ${pullRequest.url}`);
+
+    return NextResponse.json({
+      success: true,
+      pullRequest: { ...pullRequest, branch, commit, host: gitHost.displayName },
+    });
+  } catch (error: unknown) {
+    console.error("Error creating pull request:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to create pull request";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
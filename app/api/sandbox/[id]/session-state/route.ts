@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getSandboxProvider } from "@/lib/sandbox";
+import { loadCustomAgents } from "@/lib/custom-agents-loader";
+import { getAIToolConfig, isAITool } from "@/lib/ai-tools-config";
+import { exportSessionState } from "@/lib/sandbox/session-state";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Export the tool's session files before the sandbox stops, so a new sandbox can resume its sessions
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const tool = request.nextUrl.searchParams.get("tool");
+
+    await loadCustomAgents();
+    if (!tool || !isAITool(tool)) {
+      return NextResponse.json(
+        { success: false, error: "Valid AI tool is required" },
+        { status: 400 }
+      );
+    }
+
+    const toolConfig = getAIToolConfig(tool);
+    const sandbox = await getSandboxProvider().get(id);
+    const state = await exportSessionState(sandbox, {
+      stateDirs: toolConfig.sessionConfig.stateDirs ?? [],
+      sudo: toolConfig.invocation.sudo,
+    });
+
+    return NextResponse.json({ success: true, state }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error exporting session state:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to export session state";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
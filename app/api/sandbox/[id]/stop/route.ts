@@ -1,5 +1,5 @@
 import { NextResponse } from "next/server";
-import { Sandbox } from "@vercel/sandbox";
+import { getSandboxProvider } from "@/lib/sandbox";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
@@ -21,7 +21,7 @@ export async function POST(
     console.log(`Stopping sandbox with ID: ${id}`);
     
     // Get the sandbox instance by ID
-    const sandbox = await Sandbox.get({ sandboxId: id });
+    const sandbox = await getSandboxProvider().get(id);
     
     // Stop the sandbox
     await sandbox.stop();
@@ -1,9 +1,19 @@
-import { NextRequest } from "next/server";
-import { Sandbox } from "@vercel/sandbox";
+import { NextRequest, NextResponse } from "next/server";
+import { getSandboxProvider } from "@/lib/sandbox";
+import { buildShellCommand } from "@/lib/sandbox/shell";
+import { isRecordedCommand, recordCommand } from "@/lib/sandbox/recorded-commands";
 
 export const runtime = "nodejs";
 export const dynamic = "force-dynamic";
 
+// Output goes to a pipe rather than a TTY, so ask common tools to keep their colors
+const COLOR_ENV = {
+  TERM: "xterm-256color",
+  FORCE_COLOR: "1",
+  CLICOLOR_FORCE: "1",
+  npm_config_color: "always",
+};
+
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -50,7 +60,7 @@ export async function POST(
           // Connect to existing sandbox
           let sandbox;
           try {
-            sandbox = await Sandbox.get({ sandboxId });
+            sandbox = await getSandboxProvider().get(sandboxId);
             console.log(`Connected to sandbox: ${sandboxId}`);
             
             sendMessage({
@@ -77,13 +87,8 @@ export async function POST(
             return;
           }
 
-          // Parse command into cmd and args
           const trimmedCommand = command.trim();
-          const parts = trimmedCommand.split(/\s+/);
-          const cmd = parts[0];
-          const args = parts.slice(1);
-
-          console.log(`Executing terminal command: ${cmd}`, args);
+          console.log(`Executing terminal command: ${trimmedCommand}`);
 
           sendMessage({
             type: 'text-delta',
@@ -91,34 +96,42 @@ export async function POST(
             delta: `Executing command...\n\n`
           });
 
-          // Execute command directly in sandbox
-          const commandResult = await sandbox.runCommand({
-            cmd: cmd,
-            args: args,
-            sudo: false, // Default to non-sudo, user can prefix with 'sudo' if needed
+          // Execute through the sandbox shell, keeping cwd and exports between commands
+          const shellCommand = await sandbox.runDetachedCommand({
+            ...buildShellCommand(trimmedCommand),
+            env: COLOR_ENV,
           });
 
-          const stdout = await commandResult.stdout();
-          const stderr = await commandResult.stderr();
-
-          console.log(`Terminal command completed - exitCode: ${commandResult.exitCode}, stdout length: ${stdout?.length || 0}, stderr length: ${stderr?.length || 0}`);
+          // Lets the client kill the command while it runs, through DELETE below
+          await recordCommand(sandbox, "terminal", shellCommand.cmdId).catch((error) => {
+            console.warn("Failed to record the terminal command:", error);
+          });
+          sendMessage({
+            type: 'data',
+            id: 'terminal-command',
+            data: { cmdId: shellCommand.cmdId }
+          });
 
-          // Stream output
-          if (stdout) {
+          // Forward output as it is produced, in the order the streams were written.
+          // The client keeps these chunks, so the result below only adds the exit code.
+          let stdoutLength = 0;
+          let stderrLength = 0;
+          for await (const log of shellCommand.logs()) {
+            if (log.stream === "stdout") {
+              stdoutLength += log.data.length;
+            } else {
+              stderrLength += log.data.length;
+            }
             sendMessage({
-              type: 'text-delta',
-              id: 'terminal-output',
-              delta: `**Output:**\n\`\`\`\n${stdout}\n\`\`\`\n\n`
+              type: 'data',
+              id: 'terminal-chunk',
+              data: { stream: log.stream, data: log.data }
             });
           }
 
-          if (stderr) {
-            sendMessage({
-              type: 'text-delta',
-              id: 'terminal-output',
-              delta: `**Error:**\n\`\`\`\n${stderr}\n\`\`\`\n\n`
-            });
-          }
+          const commandResult = await shellCommand.wait();
+
+          console.log(`Terminal command completed - exitCode: ${commandResult.exitCode}, stdout length: ${stdoutLength}, stderr length: ${stderrLength}`);
 
           // Stream exit code
           const exitCodeColor = commandResult.exitCode === 0 ? '✅' : '❌';
@@ -137,8 +150,6 @@ export async function POST(
               result: {
                 command: trimmedCommand,
                 exitCode: commandResult.exitCode,
-                stdout: stdout || "",
-                stderr: stderr || "",
               }
             }
           });
@@ -179,4 +190,41 @@ export async function POST(
       'Connection': 'keep-alive',
     },
   });
-}
\ No newline at end of file
+}
+// Kill a command started above (?cmdId=)
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const cmdId = request.nextUrl.searchParams.get("cmdId");
+    if (!cmdId) {
+      return NextResponse.json(
+        { success: false, error: "Command ID is required" },
+        { status: 400 }
+      );
+    }
+
+    const sandbox = await getSandboxProvider().get(id);
+    if (!(await isRecordedCommand(sandbox, "terminal", cmdId))) {
+      return NextResponse.json(
+        { success: false, error: `Terminal command ${cmdId} not found` },
+        { status: 404 }
+      );
+    }
+
+    console.log(`Killing terminal command ${cmdId} in sandbox ${id}`);
+    await sandbox.killCommand(cmdId);
+
+    return NextResponse.json({ success: true }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error killing terminal command:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to kill command";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { getSandboxProvider } from "@/lib/sandbox";
+import { MAX_UPLOAD_TOTAL_BYTES, UPLOAD_DIR, UploadedFile, normalizeUploadPath, validateUploads } from "@/lib/uploads";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Room for the multipart boundaries, part headers and paths around the files themselves
+const MULTIPART_OVERHEAD_BYTES = 1024 * 1024;
+
+// Write attached files into the sandbox. The form has a "files" entry per file and a
+// matching "paths" entry with its relative path, so folders keep their structure.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    // Refuse oversized bodies before they are read into memory
+    const contentLength = Number(request.headers.get("content-length"));
+    if (contentLength > MAX_UPLOAD_TOTAL_BYTES + MULTIPART_OVERHEAD_BYTES) {
+      return NextResponse.json(
+        { success: false, error: `Uploads are limited to ${MAX_UPLOAD_TOTAL_BYTES / 1024 / 1024} MB at a time` },
+        { status: 413 }
+      );
+    }
+
+    const formData = await request.formData();
+    const files = formData.getAll("files");
+    const paths = formData.getAll("paths");
+
+    if (
+      files.length === 0 ||
+      files.length !== paths.length ||
+      !files.every((file) => file instanceof File) ||
+      !paths.every((filePath) => typeof filePath === "string")
+    ) {
+      return NextResponse.json(
+        { success: false, error: "Each uploaded file needs a path" },
+        { status: 400 }
+      );
+    }
+
+    const uploads = (files as File[]).map((file, index) => ({
+      file,
+      name: paths[index] as string,
+      size: file.size,
+      type: file.type,
+    }));
+    const validationError = validateUploads(uploads);
+    if (validationError) {
+      return NextResponse.json(
+        { success: false, error: validationError },
+        { status: 400 }
+      );
+    }
+
+    const sandbox = await getSandboxProvider().get(id);
+    const uploadedFiles: UploadedFile[] = [];
+    const sandboxFiles = [];
+    for (const upload of uploads) {
+      const filePath = `${UPLOAD_DIR}/${normalizeUploadPath(upload.name)}`;
+      sandboxFiles.push({ path: filePath, content: Buffer.from(await upload.file.arrayBuffer()) });
+      uploadedFiles.push({ path: filePath, size: upload.size, mediaType: upload.type });
+    }
+    await sandbox.writeFiles(sandboxFiles);
+
+    console.log(`Uploaded ${uploadedFiles.length} file(s) to sandbox ${id}`);
+    return NextResponse.json({ success: true, files: uploadedFiles }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error uploading files:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to upload files";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
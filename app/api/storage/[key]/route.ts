@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+import {
+  MAX_STORAGE_KEY_LENGTH,
+  MAX_STORAGE_VALUE_BYTES,
+  checkStorageRequest,
+  getStoredItem,
+  removeStoredItem,
+  setStoredItem,
+} from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// JSON quoting can double the value's size at worst
+const MAX_REQUEST_BYTES = 2 * MAX_STORAGE_VALUE_BYTES + 1024;
+
+// Backs the client's server storage adapter; disabled unless NEXT_PUBLIC_STORAGE_MODE=server
+async function getKey(request: Request, params: Promise<{ key: string }>): Promise<string | NextResponse> {
+  const rejected = checkStorageRequest(request);
+  if (rejected) {
+    return NextResponse.json({ success: false, error: rejected.error }, { status: rejected.status });
+  }
+  const { key } = await params;
+  if (!key || key.length > MAX_STORAGE_KEY_LENGTH) {
+    return NextResponse.json(
+      { success: false, error: "Invalid storage key" },
+      { status: 400 }
+    );
+  }
+  return key;
+}
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const key = await getKey(request, params);
+    if (typeof key !== "string") return key;
+    return NextResponse.json({ success: true, value: getStoredItem(key) });
+  } catch (error: unknown) {
+    console.error("Error reading storage:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to read storage";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const key = await getKey(request, params);
+    if (typeof key !== "string") return key;
+
+    const tooLarge = NextResponse.json(
+      { success: false, error: `Stored values are limited to ${MAX_STORAGE_VALUE_BYTES / 1024 / 1024} MB` },
+      { status: 413 }
+    );
+    // Refuse oversized bodies before reading them; the value's own size is checked below
+    const contentLength = Number(request.headers.get("content-length"));
+    if (contentLength > MAX_REQUEST_BYTES) return tooLarge;
+
+    const { value } = await request.json();
+    if (typeof value !== "string") {
+      return NextResponse.json(
+        { success: false, error: "Value must be a string" },
+        { status: 400 }
+      );
+    }
+    if (Buffer.byteLength(value) > MAX_STORAGE_VALUE_BYTES) return tooLarge;
+
+    setStoredItem(key, value);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error("Error writing storage:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to write storage";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  try {
+    const key = await getKey(request, params);
+    if (typeof key !== "string") return key;
+
+    removeStoredItem(key);
+    return NextResponse.json({ success: true });
+  } catch (error: unknown) {
+    console.error("Error removing storage:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to remove storage";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { MAX_STORAGE_KEY_LENGTH, checkStorageRequest, listStoredItems } from "@/lib/storage";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Lists the items whose key starts with ?prefix=, for collections kept one item per record
+export async function GET(request: Request) {
+  try {
+    const rejected = checkStorageRequest(request);
+    if (rejected) {
+      return NextResponse.json({ success: false, error: rejected.error }, { status: rejected.status });
+    }
+
+    const prefix = new URL(request.url).searchParams.get("prefix");
+    if (!prefix || prefix.length > MAX_STORAGE_KEY_LENGTH) {
+      return NextResponse.json(
+        { success: false, error: "Invalid storage key prefix" },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, items: listStoredItems(prefix) });
+  } catch (error: unknown) {
+    console.error("Error listing storage:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to list storage";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
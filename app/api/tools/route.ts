@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { loadCustomAgents } from "@/lib/custom-agents-loader";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+export async function GET() {
+  try {
+    const agents = await loadCustomAgents();
+    return NextResponse.json({ success: true, agents }, { status: 200 });
+  } catch (error: unknown) {
+    console.error("Error loading custom agents:", error);
+    const message =
+      error instanceof Error ? error.message : "Failed to load custom agents";
+    return NextResponse.json(
+      { success: false, error: message },
+      { status: 500 }
+    );
+  }
+}
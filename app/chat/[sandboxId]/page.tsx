@@ -1,11 +1,15 @@
 "use client";
 
-import React, { useState, useCallback, useEffect, use } from "react";
+import React, { useState, useCallback, useEffect, useRef, use } from "react";
 import { useRouter } from "next/navigation";
 import { SimpleChat } from "@/components/simple-chat";
 import { ErrorBoundary } from "@/components/error-boundary";
 import { useSandboxStorage, SandboxInfo, CreationState } from "@/hooks/use-sandbox-storage";
 import { useApiKeys } from "@/hooks/use-api-keys";
+import { useSessionStorage } from "@/hooks/use-session-storage";
+import { useSessionStateStorage } from "@/hooks/use-session-state-storage";
+import { useAITools } from "@/hooks/use-ai-tools";
+import { parseSetupStepEvent, SetupStepEvent } from "@/lib/setup-steps";
 
 
 interface ChatPageProps {
@@ -22,10 +26,27 @@ export default function ChatPage({ params }: ChatPageProps) {
   // Use storage hooks
   const sandboxStorage = useSandboxStorage();
   const apiKeyStorage = useApiKeys();
+  const sessionStorage = useSessionStorage();
+  const sessionStateStorage = useSessionStateStorage();
+  // Registers custom agents so their configs resolve inside the chat
+  useAITools();
 
   // Function to handle sandbox creation when navigating to a creating-* URL
   const startSandboxCreation = useCallback(async (creationState: CreationState) => {
     try {
+      // Session files saved from the sandboxes the session ran in before
+      let sessionState: string | null = null;
+      if (creationState.resumeSession && creationState.sessionId) {
+        try {
+          const session = await sessionStorage.getSession(creationState.tool, creationState.sessionId);
+          if (session) {
+            sessionState = await sessionStateStorage.findSessionState(session);
+          }
+        } catch (error) {
+          console.error('Failed to load session state:', error);
+        }
+      }
+
       const response = await fetch("/api/new-sandbox", { 
         method: "POST",
         headers: {
@@ -37,7 +58,10 @@ export default function ChatPage({ params }: ChatPageProps) {
           prompt: creationState.prompt,
           resumeSession: creationState.resumeSession,
           sessionId: creationState.sessionId,
-          aliveTimeMinutes: creationState.aliveTimeMinutes
+          aliveTimeMinutes: creationState.aliveTimeMinutes,
+          ports: creationState.ports,
+          repository: creationState.repository,
+          sessionState: sessionState ?? undefined
         })
       });
 
@@ -51,7 +75,7 @@ export default function ChatPage({ params }: ChatPageProps) {
       }
 
       const decoder = new TextDecoder();
-      let accumulatedMessages = "";
+      let buffer = "";
       let sandboxData: SandboxInfo | null = null;
 
       while (true) {
@@ -59,17 +83,19 @@ export default function ChatPage({ params }: ChatPageProps) {
         
         if (done) break;
         
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split('\n');
+        // Keep a trailing partial line until the rest of it arrives
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? "";
         
         for (const line of lines) {
           if (line.startsWith('data: ')) {
             try {
               const data = JSON.parse(line.slice(6));
+              const setupStep = parseSetupStepEvent(data);
               
-              if (data.type === 'text-delta') {
-                accumulatedMessages += data.delta;
-                setStreamingMessages(accumulatedMessages);
+              if (setupStep) {
+                setSetupEvents((prev) => [...prev, setupStep]);
               } else if (data.type === 'data' && data.id === 'sandbox-info') {
                 if (data.data.success && data.data.sandbox) {
                   sandboxData = data.data.sandbox;
@@ -87,21 +113,42 @@ export default function ChatPage({ params }: ChatPageProps) {
       if (sandboxData && sandboxData.id) {
         // Update sandbox data and navigate to actual ID
         setSandbox(sandboxData);
-        sandboxStorage.setSandbox(sandboxData);
-        sandboxStorage.clearCreationState();
+        await sandboxStorage.setSandbox(sandboxData);
+        await sandboxStorage.clearCreationState();
+
+        // The initial prompt is the session's first turn, or the next one when resuming
+        const promptOutput = sandboxData.cursorCLI?.cursorCLI.promptOutput;
+        if (sandboxData.session?.id && sandboxData.tool && promptOutput?.exitCode === 0) {
+          await sessionStorage.recordSessionTurn(
+            { sessionId: sandboxData.session.id, toolType: sandboxData.tool, sandboxId: sandboxData.id },
+            {
+              prompt: creationState.prompt,
+              costUsd: promptOutput.parsedJson?.total_cost_usd ? Number(promptOutput.parsedJson.total_cost_usd) : undefined,
+            }
+          ).catch((error) => {
+            console.error('Failed to save session:', error);
+          });
+          await sessionStateStorage.captureSessionState({
+            id: sandboxData.id,
+            tool: sandboxData.tool,
+            sessionId: sandboxData.session.id,
+          }).catch((error) => {
+            console.error('Failed to save session state:', error);
+          });
+        }
         router.replace(`/chat/${sandboxData.id}`);
       }
     } catch (error) {
       console.error('Sandbox creation failed:', error);
       router.push('/');
     }
-  }, [router, sandboxStorage]);
+  }, [router, sandboxStorage, sessionStorage, sessionStateStorage]);
   const [apiKey, setApiKey] = useState<string>("");
   const [remainingTimeMs, setRemainingTimeMs] = useState<number | null>(null);
   const [isStoppingSandbox, setIsStoppingSandbox] = useState(false);
   const [isExpired, setIsExpired] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
-  const [streamingMessages, setStreamingMessages] = useState<string>("");
+  const [setupEvents, setSetupEvents] = useState<SetupStepEvent[]>([]);
   const [initialPrompt, setInitialPrompt] = useState<string | undefined>(undefined);
 
   // Format time remaining as MM:SS
@@ -119,7 +166,7 @@ export default function ChatPage({ params }: ChatPageProps) {
         // Check if this is a creating state
         if (sandboxId.startsWith('creating-')) {
           // Load creation state from storage
-          const creationState = sandboxStorage.getCreationState();
+          const creationState = await sandboxStorage.getCreationState();
           if (!creationState) {
             router.push('/');
             return;
@@ -133,9 +180,14 @@ export default function ChatPage({ params }: ChatPageProps) {
             id: null, // null ID indicates creation in progress
             createdAt: creationState.createdAt,
             timeoutMs: creationState.aliveTimeMinutes * 60 * 1000,
+            ports: creationState.ports,
+            repository: creationState.repository && {
+              url: creationState.repository.url,
+              branch: creationState.repository.branch,
+            },
             tool: creationState.tool,
             toolName: creationState.toolName,
-            session: { id: null, resumed: false }
+            session: { id: null, resumed: creationState.resumeSession }
           };
 
           setSandbox(tempSandbox);
@@ -145,11 +197,11 @@ export default function ChatPage({ params }: ChatPageProps) {
           
         } else {
           // Try to load existing sandbox data by ID
-          const sandboxData = sandboxStorage.getSandbox(sandboxId);
+          const sandboxData = await sandboxStorage.getSandbox(sandboxId);
           if (sandboxData) {
             setSandbox(sandboxData);
             // Load API key based on tool
-            const key = sandboxData.tool ? apiKeyStorage.getApiKey(sandboxData.tool) : apiKeyStorage.getAnyApiKey();
+            const key = sandboxData.tool ? await apiKeyStorage.getApiKey(sandboxData.tool) : await apiKeyStorage.getAnyApiKey();
             setApiKey(key || '');
             // Set initial prompt if available
             setInitialPrompt(sandboxData.initialPrompt);
@@ -173,6 +225,11 @@ export default function ChatPage({ params }: ChatPageProps) {
 
   // Timer effect - updates remaining time every second
   useEffect(() => {
+    if (sandbox?.stoppedAt) {
+      setRemainingTimeMs(null);
+      setIsExpired(true);
+      return;
+    }
     if (!sandbox?.createdAt || !sandbox?.timeoutMs) {
       setRemainingTimeMs(null);
       return;
@@ -187,9 +244,8 @@ export default function ChatPage({ params }: ChatPageProps) {
       
       if (remaining <= 0) {
         setRemainingTimeMs(null);
+        // The sandbox data is kept, so its transcript stays viewable
         setIsExpired(true);
-        // Clear expired sandbox data
-        sandboxStorage.removeSandbox(sandboxId);
       } else {
         setRemainingTimeMs(remaining);
         setIsExpired(false);
@@ -200,15 +256,46 @@ export default function ChatPage({ params }: ChatPageProps) {
     const interval = setInterval(updateTimer, 1000);
     
     return () => clearInterval(interval);
-  }, [sandbox?.createdAt, sandbox?.timeoutMs, sandboxId, sandboxStorage]);
+  }, [sandbox?.stoppedAt, sandbox?.createdAt, sandbox?.timeoutMs]);
 
-  // Handle switching back to create mode
-  const handleNewSandbox = useCallback(() => {
-    // Clear the current sandbox data
-    sandboxStorage.removeSandbox(sandboxId);
-    sandboxStorage.clearCreationState();
+  // Handle switching back to create mode. The sandbox data stays, so the chat can be reopened.
+  const handleNewSandbox = useCallback(async () => {
+    await sandboxStorage.clearCreationState().catch((error) => {
+      console.error('Failed to clear creation state:', error);
+    });
     router.push('/');
-  }, [router, sandboxId, sandboxStorage]);
+  }, [router, sandboxStorage]);
+
+  // Keep the stopped sandbox's data for its transcript; leaving the page doesn't wait on a failing storage backend
+  const markSandboxStopped = useCallback(async () => {
+    try {
+      if (sandbox) {
+        await sandboxStorage.setSandbox({ ...sandbox, stoppedAt: new Date().toISOString() });
+      }
+      await sandboxStorage.clearCreationState();
+    } catch (error) {
+      console.error('Failed to update sandbox data:', error);
+    }
+  }, [sandbox, sandboxStorage]);
+
+  // Save the CLI's session files while the sandbox still runs, so its sessions can be resumed in a new one
+  const saveSessionState = useCallback(async () => {
+    if (!sandbox?.id || !sandbox.tool) return;
+    try {
+      await sessionStateStorage.captureSessionState({ id: sandbox.id, tool: sandbox.tool, sessionId: sandbox.session?.id });
+    } catch (error) {
+      console.error('Failed to save session state:', error);
+    }
+  }, [sandbox?.id, sandbox?.tool, sandbox?.session?.id, sessionStateStorage]);
+
+  // The chat also saves them after every turn; this catches a sandbox about to expire, once per sandbox
+  const sessionStateSavedFor = useRef<string | null>(null);
+  useEffect(() => {
+    if (!sandbox?.id || remainingTimeMs === null || remainingTimeMs >= 60000) return;
+    if (sessionStateSavedFor.current === sandbox.id) return;
+    sessionStateSavedFor.current = sandbox.id;
+    saveSessionState();
+  }, [sandbox?.id, remainingTimeMs, saveSessionState]);
 
   // Stop sandbox function
   const handleStopSandbox = useCallback(async () => {
@@ -216,33 +303,30 @@ export default function ChatPage({ params }: ChatPageProps) {
     
     setIsStoppingSandbox(true);
     try {
+      await saveSessionState();
       const response = await fetch(`/api/sandbox/${sandbox.id}/stop`, {
         method: 'POST',
       });
       
       if (response.ok) {
-        // Clear the sandbox data from storage
-        sandboxStorage.removeSandbox(sandboxId);
-        sandboxStorage.clearCreationState();
+        await markSandboxStopped();
         router.push('/');
       } else {
         const data = await response.json();
         console.error('Failed to stop sandbox:', data.error);
-        // Clear data anyway and switch to create mode
-        sandboxStorage.removeSandbox(sandboxId);
-        sandboxStorage.clearCreationState();
+        // Treat it as stopped anyway and switch to create mode
+        await markSandboxStopped();
         router.push('/');
       }
     } catch (error) {
       console.error('Failed to stop sandbox:', error);
-      // Clear data anyway and switch to create mode
-      sandboxStorage.removeSandbox(sandboxId);
-      sandboxStorage.clearCreationState();
+      // Treat it as stopped anyway and switch to create mode
+      await markSandboxStopped();
       router.push('/');
     } finally {
       setIsStoppingSandbox(false);
     }
-  }, [sandbox?.id, isStoppingSandbox, router, sandboxId, sandboxStorage]);
+  }, [sandbox?.id, isStoppingSandbox, router, markSandboxStopped, saveSessionState]);
 
   if (isLoading) {
     return (
@@ -278,7 +362,7 @@ export default function ChatPage({ params }: ChatPageProps) {
           onStopSandbox={handleStopSandbox}
           isStoppingSandbox={isStoppingSandbox}
           isExpired={isExpired}
-          streamingMessages={streamingMessages}
+          setupEvents={setupEvents}
           initialPrompt={initialPrompt}
         />
       </ErrorBoundary>
@@ -0,0 +1,5 @@
+import { ConversationViewer } from "@/components/conversation-viewer";
+
+export default function ConversationPage() {
+  return <ConversationViewer />;
+}
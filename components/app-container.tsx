@@ -1,13 +1,23 @@
 "use client";
 
 import React from "react";
+import Link from "next/link";
+import { History } from "lucide-react";
 import { CreateSandbox } from "./create-sandbox";
 import { TopBar } from "./top-bar";
+import { Button } from "./ui/button";
 
 export function AppContainer() {
   return (
     <div className="flex h-screen flex-col">
-      <TopBar title="CLI on the Cloud" subtitle="Create AI-powered sandboxes with Claude Code or Cursor CLI" />
+      <TopBar title="CLI on the Cloud" subtitle="Create AI-powered sandboxes with Claude Code or Cursor CLI">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/sessions">
+            <History className="w-4 h-4 mr-1" />
+            Sessions
+          </Link>
+        </Button>
+      </TopBar>
       <div className="flex-1 flex items-center justify-center p-8">
         <CreateSandbox />
       </div>
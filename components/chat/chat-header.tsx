@@ -1,7 +1,8 @@
-import React from "react";
-import { RotateCcw, Plus, Square, AlertCircle } from "lucide-react";
+import React, { useState } from "react";
+import { RotateCcw, Plus, Square, AlertCircle, AppWindow, FolderTree, Download, Clock, X, Loader2, GitPullRequest, FileText } from "lucide-react";
 import { TopBar } from "../top-bar";
 import { Button } from "../ui/button";
+import { CONVERSATION_EXPORT_FORMATS, ConversationExportFormat } from "./conversation-export";
 
 interface ChatHeaderProps {
   remainingTimeMs: number | null;
@@ -11,6 +12,19 @@ interface ChatHeaderProps {
   onNewChat: () => void;
   onStopSandbox: () => void;
   onNewSandbox: () => void;
+  isPreviewOpen?: boolean;
+  onTogglePreview?: () => void;
+  isFilesOpen?: boolean;
+  onToggleFiles?: () => void;
+  isPullRequestOpen?: boolean;
+  onTogglePullRequest?: () => void;
+  isDownloading?: boolean;
+  onDownload?: () => void;
+  // Offer to download the workspace before the sandbox expires
+  showDownloadPrompt?: boolean;
+  onDismissDownloadPrompt?: () => void;
+  // Download the transcript, which stays available once the sandbox has expired
+  onExportConversation?: (format: ConversationExportFormat) => void;
 }
 
 export function ChatHeader({
@@ -21,7 +35,20 @@ export function ChatHeader({
   onNewChat,
   onStopSandbox,
   onNewSandbox,
+  isPreviewOpen = false,
+  onTogglePreview,
+  isFilesOpen = false,
+  onToggleFiles,
+  isPullRequestOpen = false,
+  onTogglePullRequest,
+  isDownloading = false,
+  onDownload,
+  showDownloadPrompt = false,
+  onDismissDownloadPrompt,
+  onExportConversation,
 }: ChatHeaderProps) {
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+
   return (
     <>
       <TopBar 
@@ -39,6 +66,88 @@ export function ChatHeader({
         ) : undefined}
       >
         <div className="flex items-center gap-1">
+          {onToggleFiles && (
+            <Button
+              variant={isFilesOpen ? "secondary" : "ghost"}
+              size="icon"
+              onClick={onToggleFiles}
+              disabled={isExpired}
+              title={isFilesOpen ? "Hide Files" : "Show Files"}
+            >
+              <FolderTree className="w-4 h-4" />
+            </Button>
+          )}
+
+          {onTogglePreview && (
+            <Button
+              variant={isPreviewOpen ? "secondary" : "ghost"}
+              size="icon"
+              onClick={onTogglePreview}
+              disabled={isExpired}
+              title={isPreviewOpen ? "Hide Preview" : "Show Preview"}
+            >
+              <AppWindow className="w-4 h-4" />
+            </Button>
+          )}
+
+          {onTogglePullRequest && (
+            <Button
+              variant={isPullRequestOpen ? "secondary" : "ghost"}
+              size="icon"
+              onClick={onTogglePullRequest}
+              disabled={isExpired}
+              title="Create PR"
+            >
+              <GitPullRequest className="w-4 h-4" />
+            </Button>
+          )}
+
+          {onDownload && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={onDownload}
+              disabled={isDownloading || isExpired}
+              title={isDownloading ? "Downloading..." : "Download Workspace"}
+            >
+              {isDownloading ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Download className="w-4 h-4" />
+              )}
+            </Button>
+          )}
+
+          {onExportConversation && (
+            <div className="relative">
+              <Button
+                variant={isExportMenuOpen ? "secondary" : "ghost"}
+                size="icon"
+                onClick={() => setIsExportMenuOpen((open) => !open)}
+                title="Export Conversation"
+              >
+                <FileText className="w-4 h-4" />
+              </Button>
+              {isExportMenuOpen && (
+                <div className="absolute right-0 top-full z-20 mt-1 w-44 rounded-md border bg-popover p-1 shadow-md">
+                  {(Object.keys(CONVERSATION_EXPORT_FORMATS) as ConversationExportFormat[]).map((format) => (
+                    <button
+                      key={format}
+                      type="button"
+                      className="w-full rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent hover:text-accent-foreground"
+                      onClick={() => {
+                        setIsExportMenuOpen(false);
+                        onExportConversation(format);
+                      }}
+                    >
+                      Export as {CONVERSATION_EXPORT_FORMATS[format].label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           <Button
             variant="ghost"
             size="icon"
@@ -70,12 +179,47 @@ export function ChatHeader({
         </div>
       </TopBar>
 
+      {/* Expiring Soon Banner */}
+      {showDownloadPrompt && onDownload && !isExpired && (
+        <div className="border-b bg-yellow-500/10 border-yellow-500/20 px-4 py-3">
+          <div className="flex items-center gap-2 text-yellow-700 dark:text-yellow-500">
+            <Clock className="w-4 h-4" />
+            <span className="text-sm font-medium">
+              Sandbox expires in less than a minute. Download your work before it&apos;s gone.
+            </span>
+            <div className="flex-1" />
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={onDownload}
+              disabled={isDownloading}
+              className="h-7"
+            >
+              <Download className="w-3 h-3 mr-1" />
+              {isDownloading ? "Downloading..." : "Download Workspace"}
+            </Button>
+            {onDismissDownloadPrompt && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={onDismissDownloadPrompt}
+                className="h-7 w-7"
+                title="Dismiss"
+              >
+                <X className="w-3 h-3" />
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Expired State Banner */}
       {isExpired && (
         <div className="border-b bg-destructive/10 border-destructive/20 px-4 py-3">
           <div className="flex items-center gap-2 text-destructive">
             <AlertCircle className="w-4 h-4" />
             <span className="text-sm font-medium">Sandbox has expired</span>
+            <span className="text-sm text-destructive/80">The saved transcript is read-only</span>
             <div className="flex-1" />
             <Button
               variant="destructive"
@@ -1,37 +1,135 @@
-import React, { useMemo } from "react";
-import { MessageSquare, Terminal, ArrowUp } from "lucide-react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { MessageSquare, Terminal, ArrowUp, Paperclip, FolderUp, FileIcon, ImageIcon, X } from "lucide-react";
 import { TerminalInput } from "../terminal-input";
 import { Button } from "../ui/button";
 import { Loader } from "../ai-elements/loader";
 import {
   PromptInput,
+  PromptInputButton,
   PromptInputTextarea,
   PromptInputToolbar,
   PromptInputSubmit,
   PromptInputTools,
 } from "../ai-elements/prompt-input";
+import type { Attachment } from "./hooks/use-attachments";
+import { cn } from "@/lib/utils";
+
+function readFileEntry(entry: FileSystemFileEntry): Promise<File> {
+  return new Promise((resolve, reject) => entry.file(resolve, reject));
+}
+
+function readDirectoryEntries(entry: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = entry.createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns directories in batches until it returns an empty one
+  return new Promise((resolve, reject) => {
+    const readBatch = () =>
+      reader.readEntries((batch) => {
+        if (batch.length === 0) return resolve(entries);
+        entries.push(...batch);
+        readBatch();
+      }, reject);
+    readBatch();
+  });
+}
+
+async function collectEntryFiles(entry: FileSystemEntry, prefix = ""): Promise<Attachment[]> {
+  if (entry.isFile) {
+    const file = await readFileEntry(entry as FileSystemFileEntry);
+    return [{ file, path: `${prefix}${file.name}` }];
+  }
+  const children = await readDirectoryEntries(entry as FileSystemDirectoryEntry);
+  const nested = await Promise.all(
+    children.map((child) => collectEntryFiles(child, `${prefix}${entry.name}/`))
+  );
+  return nested.flat();
+}
+
+// Dropped folders are walked recursively so their files keep their relative paths
+async function collectDroppedFiles(dataTransfer: DataTransfer): Promise<Attachment[]> {
+  // Entries must be read before the first await, while the drop event is still active
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => item.webkitGetAsEntry?.())
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map((file) => ({ file, path: file.name }));
+  }
+  const nested = await Promise.all(entries.map((entry) => collectEntryFiles(entry)));
+  return nested.flat();
+}
 
 interface ChatInputProps {
   isTerminalMode: boolean;
+  // The terminal takes keystrokes directly, so only the mode switch is shown
+  isInteractiveTerminal?: boolean;
   setIsTerminalMode: (mode: boolean) => void;
   input: string;
   setInput: (value: string) => void;
   onSubmit: (e: React.FormEvent) => void;
   isLoading: boolean;
+  // Cancels the running agent turn
+  onStop?: () => void;
   isExpired: boolean;
   toolName?: string;
+  // Files written into the sandbox when the next message is sent
+  attachments?: Attachment[];
+  onAddAttachments?: (attachments: Attachment[]) => void;
+  onRemoveAttachment?: (path: string) => void;
 }
 
 export function ChatInput({
   isTerminalMode,
+  isInteractiveTerminal = false,
   setIsTerminalMode,
   input,
   setInput,
   onSubmit,
   isLoading,
+  onStop,
   isExpired,
   toolName,
+  attachments = [],
+  onAddAttachments,
+  onRemoveAttachment,
 }: ChatInputProps) {
+  const [isDragging, setIsDragging] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // React doesn't know the attribute that turns a file input into a folder picker
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, []);
+
+  const canAttach = !!onAddAttachments && !isLoading && !isExpired;
+
+  const handlePickedFiles = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    if (files.length > 0) {
+      onAddAttachments?.(files.map((file) => ({ file, path: file.webkitRelativePath || file.name })));
+    }
+    // Allow picking the same files again
+    e.target.value = "";
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!canAttach || !e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    if (!canAttach) return;
+    e.preventDefault();
+    setIsDragging(false);
+    try {
+      const dropped = await collectDroppedFiles(e.dataTransfer);
+      if (dropped.length > 0) onAddAttachments?.(dropped);
+    } catch (error) {
+      console.error("Failed to read dropped files:", error);
+    }
+  };
+
   // Memoize props to prevent infinite re-renders
   const submitStatus = useMemo(() => {
     return isLoading ? "streaming" : "ready";
@@ -71,18 +169,24 @@ export function ChatInput({
               <Terminal className="size-4" />
             </Button>
           </div>
-          <TerminalInput
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onSubmit={(command) => {
-              if (!command.trim() || isLoading) return;
-              const event = new Event('submit', { bubbles: true, cancelable: true }) as unknown as React.FormEvent;
-              onSubmit(event);
-            }}
-            disabled={isLoading || isExpired}
-            placeholder={isExpired ? "Sandbox expired" : ""}
-            className="flex-1"
-          />
+          {isInteractiveTerminal ? (
+            <span className="text-xs text-muted-foreground">
+              Interactive shell in the sandbox. Press Ctrl-C to interrupt a command.
+            </span>
+          ) : (
+            <TerminalInput
+              value={input}
+              onChange={(e) => setInput(e.target.value)}
+              onSubmit={(command) => {
+                if (!command.trim() || isLoading) return;
+                const event = new Event('submit', { bubbles: true, cancelable: true }) as unknown as React.FormEvent;
+                onSubmit(event);
+              }}
+              disabled={isLoading || isExpired}
+              placeholder={isExpired ? "Sandbox expired" : ""}
+              className="flex-1"
+            />
+          )}
         </div>
       ) : (
         <div className="flex items-start gap-3">
@@ -108,14 +212,51 @@ export function ChatInput({
               <Terminal className="size-4" />
             </Button>
           </div>
-          <PromptInput onSubmit={onSubmit} className="relative flex-1">
+          <PromptInput
+            onSubmit={onSubmit}
+            onDragOver={handleDragOver}
+            onDragLeave={(e) => {
+              // Moving between the form's own children also fires dragleave
+              if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDragging(false);
+            }}
+            onDrop={handleDrop}
+            className={cn("relative flex-1", isDragging && "ring-2 ring-primary")}
+          >
+            {attachments.length > 0 && (
+              <div className="flex flex-wrap gap-1 p-2">
+                {attachments.map((attachment) => (
+                  <span
+                    key={attachment.path}
+                    className="flex max-w-64 items-center gap-1 rounded-md bg-muted px-2 py-1 text-xs"
+                    title={attachment.path}
+                  >
+                    {attachment.file.type.startsWith("image/") ? (
+                      <ImageIcon className="size-3 shrink-0" />
+                    ) : (
+                      <FileIcon className="size-3 shrink-0" />
+                    )}
+                    <span className="truncate">{attachment.path}</span>
+                    {onRemoveAttachment && (
+                      <button
+                        type="button"
+                        onClick={() => onRemoveAttachment(attachment.path)}
+                        className="shrink-0 text-muted-foreground hover:text-foreground"
+                        aria-label={`Remove ${attachment.path}`}
+                      >
+                        <X className="size-3" />
+                      </button>
+                    )}
+                  </span>
+                ))}
+              </div>
+            )}
             <PromptInputTextarea
               value={input}
               onChange={(e) => setInput(e.target.value)}
               placeholder={
                 isExpired
                   ? "Sandbox expired - create a new sandbox to continue"
-                  : `Message ${toolName || "AI tool"}...`
+                  : `Message ${toolName || "AI tool"}... (drop files to attach)`
               }
               disabled={isLoading || isExpired}
               className={`resize-none ${
@@ -126,19 +267,48 @@ export function ChatInput({
             />
             <PromptInputToolbar>
               <PromptInputTools>
-                {/* Empty tools area */}
-              </PromptInputTools>
-              <PromptInputSubmit
-                className="relative"
-                disabled={isSubmitDisabled}
-                status={submitStatus}
-              >
-                {isLoading ? (
-                  <Loader size={16} />
-                ) : (
-                  <ArrowUp className="size-4" />
+                {onAddAttachments && (
+                  <>
+                    <input ref={fileInputRef} type="file" multiple hidden onChange={handlePickedFiles} />
+                    <input ref={folderInputRef} type="file" multiple hidden onChange={handlePickedFiles} />
+                    <PromptInputButton
+                      onClick={() => fileInputRef.current?.click()}
+                      disabled={!canAttach}
+                      title="Attach files"
+                    >
+                      <Paperclip className="size-4" />
+                    </PromptInputButton>
+                    <PromptInputButton
+                      onClick={() => folderInputRef.current?.click()}
+                      disabled={!canAttach}
+                      title="Attach folder"
+                    >
+                      <FolderUp className="size-4" />
+                    </PromptInputButton>
+                  </>
                 )}
-              </PromptInputSubmit>
+              </PromptInputTools>
+              {isLoading && onStop ? (
+                <PromptInputSubmit
+                  type="button"
+                  aria-label="Stop"
+                  title="Stop"
+                  onClick={onStop}
+                  status={submitStatus}
+                />
+              ) : (
+                <PromptInputSubmit
+                  className="relative"
+                  disabled={isSubmitDisabled}
+                  status={submitStatus}
+                >
+                  {isLoading ? (
+                    <Loader size={16} />
+                  ) : (
+                    <ArrowUp className="size-4" />
+                  )}
+                </PromptInputSubmit>
+              )}
             </PromptInputToolbar>
           </PromptInput>
         </div>
@@ -1,8 +1,14 @@
 import React from "react";
-import { TerminalMessage } from "../terminal-message";
+import { Paperclip } from "lucide-react";
+import { TerminalMessage, TerminalResult, LegacyTerminalResult } from "../terminal-message";
 import { MessageMetadataDisplay } from "./message-metadata";
+import { MessageParts, AssistantMessagePart } from "./message-parts";
+import { FileChanges } from "./file-changes";
 import { SetupStatus } from "../setup-status";
 import { Response } from "../ai-elements/response";
+import { Image } from "../ai-elements/image";
+import type { FileChangesData } from "@/lib/sandbox/file-changes";
+import type { MessageAttachment } from "./hooks/use-attachments";
 import {
   Conversation,
   ConversationContent,
@@ -23,13 +29,11 @@ interface Message {
     };
     exitCode?: number;
   };
+  parts?: AssistantMessagePart[];
+  fileChanges?: FileChangesData;
+  attachments?: MessageAttachment[];
   type?: "chat" | "terminal" | "setup";
-  terminalResult?: {
-    command: string;
-    exitCode: number;
-    stdout: string;
-    stderr: string;
-  };
+  terminalResult?: TerminalResult | LegacyTerminalResult;
   setupTasks?: SetupTask[];
 }
 
@@ -48,6 +52,8 @@ interface ChatMessagesProps {
   toolName?: string;
   isTerminalMode: boolean;
   error: string | null;
+  // Stops a terminal command that is still running
+  onKillCommand?: (cmdId: string) => void;
 }
 
 export function ChatMessages({
@@ -56,6 +62,7 @@ export function ChatMessages({
   toolName,
   isTerminalMode,
   error,
+  onKillCommand,
 }: ChatMessagesProps) {
   return (
     <Conversation className="flex-1 overflow-hidden">
@@ -89,11 +96,13 @@ export function ChatMessages({
 
         {messages.map((message) => {
           if (message.type === "terminal" && message.terminalResult) {
+            const { cmdId } = message.terminalResult;
             return (
               <TerminalMessage
                 key={message.id}
                 command={message.terminalResult.command}
                 result={message.terminalResult}
+                onKill={cmdId && onKillCommand ? () => onKillCommand(cmdId) : undefined}
               />
             );
           }
@@ -118,20 +127,49 @@ export function ChatMessages({
             >
               {message.role === "user" ? (
                 <div className="max-w-[80%] rounded-lg px-4 py-2 bg-primary text-primary-foreground">
+                  {message.attachments && (
+                    <div className="mb-2 space-y-2">
+                      {message.attachments.map((attachment) =>
+                        attachment.base64 ? (
+                          <Image
+                            key={attachment.path}
+                            base64={attachment.base64}
+                            uint8Array={new Uint8Array()}
+                            mediaType={attachment.mediaType}
+                            alt={attachment.path}
+                            className="max-h-64"
+                          />
+                        ) : (
+                          <div key={attachment.path} className="flex items-center gap-1 text-xs opacity-90">
+                            <Paperclip className="size-3 shrink-0" />
+                            <span className="truncate font-mono">{attachment.path}</span>
+                          </div>
+                        )
+                      )}
+                    </div>
+                  )}
                   <div className="whitespace-pre-wrap">{message.content}</div>
                 </div>
               ) : (
                 <div className="max-w-[80%]">
-                  <Response
-                    className="rounded-lg bg-secondary text-foreground p-4"
-                    parseIncompleteMarkdown={true}
-                  >
-                    {message.content}
-                  </Response>
+                  {message.parts && message.parts.length > 0 ? (
+                    <MessageParts parts={message.parts} />
+                  ) : (
+                    <Response
+                      className="rounded-lg bg-secondary text-foreground p-4"
+                      parseIncompleteMarkdown={true}
+                    >
+                      {message.content}
+                    </Response>
+                  )}
 
                   {message.metadata && (
                     <MessageMetadataDisplay metadata={message.metadata} />
                   )}
+
+                  {message.fileChanges && (
+                    <FileChanges data={message.fileChanges} />
+                  )}
                 </div>
               )}
             </div>
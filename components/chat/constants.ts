@@ -1,2 +1,14 @@
-export const getSessionsKey = (tool: string) => `claude-code-cloud-sessions-${tool}`;
-export const MAX_SESSIONS = 10;
\ No newline at end of file
+// Each session is its own item, so saving one never rewrites the others
+export const getSessionsKey = (tool: string) => `claude-code-cloud-sessions-${tool}:`;
+export const getSessionKey = (tool: string, sessionId: string) => `${getSessionsKey(tool)}${sessionId}`;
+// Where older versions kept all of a tool's sessions in one list
+export const getLegacySessionsKey = (tool: string) => `claude-code-cloud-sessions-${tool}`;
+// Sessions are listed and searched on the sessions page, so browser storage keeps a long history. Server storage keeps them all.
+export const MAX_SESSIONS = 200;
+// One item per sandbox whose exported session files are kept, holding when they were saved
+export const getSessionStatesKey = (sandboxId: string) => `session-states:${sandboxId}`;
+export const SESSION_STATES_PREFIX = getSessionStatesKey('');
+// Where older versions kept the list of those sandboxes, oldest first
+export const LEGACY_SESSION_STATES_KEY = 'session-states';
+// Each export may be up to 2 MB, and browser storage holds about 5 MB. Server storage keeps them all.
+export const MAX_SESSION_STATES = 2;
@@ -0,0 +1,349 @@
+import { z } from "zod";
+import type { ChatMessage } from "../simple-chat";
+import type { SetupTask } from "../setup-status";
+import { getTerminalChunks } from "../terminal-message";
+import type { SandboxInfo } from "@/hooks/use-sandbox-storage";
+import type { RepositoryInfo } from "@/lib/repository";
+import { setupStepStatusSchema } from "@/lib/setup-steps";
+
+// Marks files written by the export, so the import can tell them from other JSON
+export const CONVERSATION_EXPORT_KIND = "cli-on-the-cloud/conversation";
+// Version 2 keeps terminal output only as the chunks it was produced in
+export const CONVERSATION_EXPORT_VERSION = 2;
+
+export interface ConversationExport {
+  kind: typeof CONVERSATION_EXPORT_KIND;
+  version: number;
+  exportedAt: string;
+  tool?: string;
+  toolName?: string;
+  sessionId: string | null;
+  sandbox: {
+    id: string | null;
+    provider?: string;
+    createdAt: string;
+    repository?: RepositoryInfo;
+  };
+  // Summed over the agent's responses
+  totals: {
+    turns: number;
+    costUsd: number;
+    durationMs: number;
+    inputTokens: number;
+    outputTokens: number;
+  };
+  setupTasks: SetupTask[];
+  messages: ChatMessage[];
+}
+
+export function buildConversationExport({
+  sandbox,
+  sessionId,
+  messages,
+  setupTasks,
+}: {
+  sandbox: SandboxInfo;
+  sessionId: string | null;
+  messages: ChatMessage[];
+  setupTasks: SetupTask[];
+}): ConversationExport {
+  const responses = messages.filter((message) => message.role === "assistant" && message.metadata);
+  const sum = (value: (metadata: NonNullable<ChatMessage["metadata"]>) => number | undefined) =>
+    responses.reduce((total, message) => total + (value(message.metadata!) ?? 0), 0);
+
+  return {
+    kind: CONVERSATION_EXPORT_KIND,
+    version: CONVERSATION_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    tool: sandbox.tool,
+    toolName: sandbox.toolName,
+    sessionId: sessionId ?? sandbox.session?.id ?? null,
+    sandbox: {
+      id: sandbox.id,
+      provider: sandbox.provider,
+      createdAt: sandbox.createdAt,
+      repository: sandbox.repository,
+    },
+    totals: {
+      turns: responses.length,
+      costUsd: sum((metadata) => metadata.total_cost_usd),
+      durationMs: sum((metadata) => metadata.duration_ms),
+      inputTokens: sum((metadata) => metadata.usage?.input_tokens),
+      outputTokens: sum((metadata) => metadata.usage?.output_tokens),
+    },
+    setupTasks: messages.find((message) => message.type === "setup")?.setupTasks ?? setupTasks,
+    // Image previews are only kept for the page, like in the saved transcript
+    messages: messages.map((message) =>
+      message.attachments
+        ? { ...message, attachments: message.attachments.map((attachment) => ({ ...attachment, base64: undefined })) }
+        : message
+    ),
+  };
+}
+
+// A fence longer than any run of backticks in the text, so it can't be closed early
+function fenced(text: string, language = ""): string {
+  const longestRun = Math.max(2, ...(text.match(/`+/g) ?? []).map((run) => run.length));
+  const fence = "`".repeat(longestRun + 1);
+  return `${fence}${language}\n${text.replace(/\n$/, "")}\n${fence}`;
+}
+
+function formatInput(input: unknown): string {
+  return typeof input === "string" ? input : JSON.stringify(input, null, 2);
+}
+
+function messageToMarkdown(message: ChatMessage, agentName: string): string[] {
+  if (message.type === "setup") return [];
+
+  if (message.type === "terminal" && message.terminalResult) {
+    const { command, exitCode } = message.terminalResult;
+    const output = getTerminalChunks(message.terminalResult).map((chunk) => chunk.data).join("");
+    return [
+      "### Terminal",
+      fenced([`$ ${command}`, output].filter(Boolean).join("\n"), "console"),
+      `Exit code ${exitCode}`,
+    ];
+  }
+
+  if (message.role === "user") {
+    return [
+      "### User",
+      message.content,
+      ...(message.attachments ?? []).map((attachment) => `- Attached \`${attachment.path}\``),
+    ];
+  }
+
+  const lines = [`### ${agentName}`];
+  if (message.parts && message.parts.length > 0) {
+    for (const part of message.parts) {
+      if (part.type === "text") {
+        lines.push(part.text);
+      } else if (part.type === "reasoning") {
+        lines.push(part.data.text.split("\n").map((line) => `> ${line}`).join("\n"));
+      } else {
+        const { name, input, output, errorText } = part.data;
+        lines.push(`**Tool call: \`${name}\`**`, fenced(formatInput(input), "json"));
+        if (errorText) lines.push(`Failed: ${errorText}`);
+        else if (output) lines.push(fenced(output));
+      }
+    }
+  } else {
+    lines.push(message.content);
+  }
+
+  if (message.fileChanges) {
+    const { changes, omittedCount } = message.fileChanges;
+    lines.push(
+      [
+        ...changes.map((change) => `- ${change.status} \`${change.path}\` (+${change.additions} -${change.deletions})`),
+        ...(omittedCount ? [`- and ${omittedCount} more`] : []),
+      ].join("\n")
+    );
+  }
+
+  const { metadata } = message;
+  if (metadata) {
+    const details = [
+      metadata.duration_ms !== undefined && `${(metadata.duration_ms / 1000).toFixed(1)}s`,
+      metadata.total_cost_usd !== undefined && `$${metadata.total_cost_usd.toFixed(4)}`,
+      metadata.usage && `${metadata.usage.input_tokens ?? 0} tokens in, ${metadata.usage.output_tokens ?? 0} out`,
+      metadata.exitCode !== undefined && metadata.exitCode !== 0 && `exit code ${metadata.exitCode}`,
+    ].filter(Boolean);
+    if (details.length > 0) lines.push(`_${details.join(" · ")}_`);
+  }
+  return lines;
+}
+
+export function conversationToMarkdown(conversation: ConversationExport): string {
+  const agentName = conversation.toolName || conversation.tool || "Agent";
+  const title = conversation.messages.find((message) => message.role === "user" && message.type !== "terminal")?.content;
+  const { totals, sandbox } = conversation;
+
+  const summary = [
+    `- **Tool:** ${agentName}`,
+    conversation.sessionId && `- **Session:** \`${conversation.sessionId}\``,
+    sandbox.id && `- **Sandbox:** \`${sandbox.id}\`${sandbox.provider ? ` (${sandbox.provider})` : ""}`,
+    sandbox.repository &&
+      `- **Repository:** ${sandbox.repository.url}${sandbox.repository.branch ? ` on \`${sandbox.repository.branch}\`` : ""}${sandbox.repository.commit ? ` at \`${sandbox.repository.commit.slice(0, 7)}\`` : ""}`,
+    `- **Turns:** ${totals.turns}`,
+    `- **Cost:** $${totals.costUsd.toFixed(4)}`,
+    `- **Tokens:** ${totals.inputTokens} in, ${totals.outputTokens} out`,
+    `- **Exported:** ${conversation.exportedAt}`,
+  ].filter(Boolean);
+
+  const sections = [`# ${title?.split("\n")[0] || "Conversation"}`, summary.join("\n")];
+  if (conversation.setupTasks.length > 0) {
+    sections.push(
+      "## Setup",
+      conversation.setupTasks
+        .map((task) => `- [${task.status === "completed" ? "x" : " "}] ${task.title}${task.description ? `: ${task.description}` : ""}${task.error ? ` (${task.error})` : ""}`)
+        .join("\n")
+    );
+  }
+  sections.push("## Conversation", ...conversation.messages.flatMap((message) => messageToMarkdown(message, agentName)));
+
+  return `${sections.join("\n\n")}\n`;
+}
+
+export const CONVERSATION_EXPORT_FORMATS = {
+  json: {
+    label: "JSON",
+    extension: "json",
+    contentType: "application/json",
+    serialize: (conversation: ConversationExport) => JSON.stringify(conversation, null, 2),
+  },
+  markdown: {
+    label: "Markdown",
+    extension: "md",
+    contentType: "text/markdown",
+    serialize: conversationToMarkdown,
+  },
+};
+
+export type ConversationExportFormat = keyof typeof CONVERSATION_EXPORT_FORMATS;
+
+export function getConversationFileName(conversation: ConversationExport, format: ConversationExportFormat): string {
+  const id = conversation.sessionId?.slice(0, 8) || conversation.sandbox.id || "conversation";
+  return `conversation-${id}-${conversation.exportedAt.slice(0, 10)}.${CONVERSATION_EXPORT_FORMATS[format].extension}`;
+}
+
+// Optional fields are dropped when they don't have the shape the viewer renders, rather than
+// rejecting the whole file. Fields the viewer doesn't use are left out.
+const optional = <T extends z.ZodType>(schema: T) => schema.optional().catch(undefined);
+
+const setupTaskSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  status: setupStepStatusSchema,
+  description: optional(z.string()),
+  error: optional(z.string()),
+  details: optional(z.array(z.string())),
+  durationMs: optional(z.number()),
+});
+
+const messagePartSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("text"), text: z.string() }),
+  z.object({
+    type: z.literal("tool-call"),
+    id: z.string(),
+    data: z.object({
+      toolCallId: z.string(),
+      name: z.string(),
+      input: z.unknown(),
+      state: z.enum(["input-available", "output-available", "output-error"]),
+      output: optional(z.string()),
+      errorText: optional(z.string()),
+    }),
+  }),
+  z.object({
+    type: z.literal("reasoning"),
+    id: z.string(),
+    data: z.object({ text: z.string(), duration: z.number() }),
+  }),
+]);
+
+const messageSchema = z.object({
+  id: z.string(),
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+  type: optional(z.enum(["chat", "terminal", "setup"])),
+  metadata: optional(
+    z.object({
+      sessionId: optional(z.string()),
+      duration_ms: optional(z.number()),
+      total_cost_usd: optional(z.number()),
+      usage: optional(
+        z.object({
+          input_tokens: optional(z.number()),
+          output_tokens: optional(z.number()),
+        })
+      ),
+      exitCode: optional(z.number()),
+    })
+  ),
+  parts: optional(z.array(messagePartSchema)),
+  fileChanges: optional(
+    z.object({
+      changes: z.array(
+        z.object({
+          path: z.string(),
+          status: z.enum(["added", "modified", "deleted"]),
+          additions: z.number(),
+          deletions: z.number(),
+          diff: z.string(),
+        })
+      ),
+      omittedCount: optional(z.number()),
+    })
+  ),
+  attachments: optional(
+    z.array(z.object({ path: z.string(), size: z.number(), mediaType: z.string(), base64: optional(z.string()) }))
+  ),
+  terminalResult: optional(
+    z.union([
+      z.object({
+        command: z.string(),
+        exitCode: z.number(),
+        cmdId: optional(z.string()),
+        output: z.array(z.object({ stream: z.enum(["stdout", "stderr"]), data: z.string() })),
+      }),
+      // Version 1 kept the streams apart, and the output only when it was streamed
+      z.object({
+        command: z.string(),
+        exitCode: z.number(),
+        cmdId: optional(z.string()),
+        stdout: z.string(),
+        stderr: z.string(),
+      }),
+    ])
+  ),
+  setupTasks: optional(z.array(setupTaskSchema)),
+});
+
+const conversationExportSchema = z.object({
+  kind: z.literal(CONVERSATION_EXPORT_KIND),
+  version: z.number().int().min(1).max(CONVERSATION_EXPORT_VERSION),
+  exportedAt: z.string(),
+  tool: optional(z.string()),
+  toolName: optional(z.string()),
+  sessionId: z.string().nullable(),
+  sandbox: z.object({
+    id: z.string().nullable(),
+    provider: optional(z.string()),
+    createdAt: z.string(),
+    repository: optional(
+      z.object({ url: z.string(), branch: optional(z.string()), commit: optional(z.string()) })
+    ),
+  }),
+  totals: z.object({
+    turns: z.number(),
+    costUsd: z.number(),
+    durationMs: z.number(),
+    inputTokens: z.number(),
+    outputTokens: z.number(),
+  }),
+  setupTasks: z.array(setupTaskSchema).catch([]),
+  messages: z.array(messageSchema),
+});
+
+// Returns null for anything that is not a conversation exported as JSON
+export function parseConversationExport(text: string): ConversationExport | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  const result = conversationExportSchema.safeParse(data);
+  return result.success ? result.data : null;
+}
+
+// Save a file through a temporary link
+export function downloadFile(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,78 @@
+import React from "react";
+import { ChevronDownIcon, FileDiff } from "lucide-react";
+import { CodeBlock } from "../ai-elements/code-block";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "../ui/collapsible";
+import { cn } from "@/lib/utils";
+import type { FileChange, FileChangesData } from "@/lib/sandbox/file-changes";
+
+const STATUS_LABELS: Record<FileChange["status"], { label: string; className: string }> = {
+  added: { label: "A", className: "text-green-600" },
+  modified: { label: "M", className: "text-yellow-600" },
+  deleted: { label: "D", className: "text-red-600" },
+};
+
+function LineCounts({ additions, deletions }: { additions: number; deletions: number }) {
+  return (
+    <span className="shrink-0 font-mono text-xs">
+      <span className="text-green-600">+{additions}</span>{" "}
+      <span className="text-red-600">-{deletions}</span>
+    </span>
+  );
+}
+
+function FileChangeItem({ change }: { change: FileChange }) {
+  const status = STATUS_LABELS[change.status];
+  return (
+    <Collapsible className="group/file">
+      <CollapsibleTrigger className="flex w-full items-center gap-2 px-3 py-1.5 text-left text-sm hover:bg-muted/50">
+        <span className={cn("w-3 shrink-0 font-mono text-xs font-semibold", status.className)} title={change.status}>
+          {status.label}
+        </span>
+        <span className="flex-1 truncate font-mono text-xs">{change.path}</span>
+        <LineCounts additions={change.additions} deletions={change.deletions} />
+        <ChevronDownIcon className="size-3 shrink-0 text-muted-foreground transition-transform group-data-[state=open]/file:rotate-180" />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="px-3 pb-2">
+        {change.diff ? (
+          <CodeBlock code={change.diff} language="diff" className="max-h-96 overflow-auto" />
+        ) : (
+          <p className="text-xs text-muted-foreground">Binary file, no diff shown</p>
+        )}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
+
+// Files the agent created, modified or deleted during a turn
+export function FileChanges({ data }: { data: FileChangesData }) {
+  const additions = data.changes.reduce((total, change) => total + change.additions, 0);
+  const deletions = data.changes.reduce((total, change) => total + change.deletions, 0);
+  const fileCount = data.changes.length + (data.omittedCount ?? 0);
+
+  return (
+    <Collapsible className="group mx-4 mt-2 rounded-md border">
+      <CollapsibleTrigger className="flex w-full items-center gap-2 px-3 py-2 text-left text-sm">
+        <FileDiff className="size-4 shrink-0 text-muted-foreground" />
+        <span className="flex-1 font-medium">
+          {fileCount} {fileCount === 1 ? "file" : "files"} changed
+        </span>
+        <LineCounts additions={additions} deletions={deletions} />
+        <ChevronDownIcon className="size-4 shrink-0 text-muted-foreground transition-transform group-data-[state=open]:rotate-180" />
+      </CollapsibleTrigger>
+      <CollapsibleContent className="border-t py-1">
+        {data.changes.map((change) => (
+          <FileChangeItem key={change.path} change={change} />
+        ))}
+        {data.omittedCount ? (
+          <p className="px-3 py-1.5 text-xs text-muted-foreground">
+            {data.omittedCount} more {data.omittedCount === 1 ? "file" : "files"} not shown
+          </p>
+        ) : null}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { UploadedFile, validateUploads } from '@/lib/uploads';
+
+// A file picked or dropped in the chat input, waiting to be sent
+export interface Attachment {
+  file: File;
+  // Relative path, keeping the structure of dropped folders
+  path: string;
+}
+
+// An uploaded file as shown in the user's message
+export interface MessageAttachment extends UploadedFile {
+  // Images are previewed from the browser's copy, so the sandbox isn't read back
+  base64?: string;
+}
+
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(',')[1] ?? '');
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+export function useAttachments() {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+
+  // Returns an error instead of adding the files when the batch breaks the upload limits
+  const addAttachments = React.useCallback((added: Attachment[]): string | null => {
+    // A file with the same path replaces the earlier one, as it would in the sandbox
+    const next = [...attachments.filter((a) => !added.some((b) => b.path === a.path)), ...added];
+    const error = validateUploads(next.map((a) => ({ name: a.path, size: a.file.size, type: a.file.type })));
+    if (!error) setAttachments(next);
+    return error;
+  }, [attachments]);
+
+  const removeAttachment = React.useCallback((path: string) => {
+    setAttachments((prev) => prev.filter((a) => a.path !== path));
+  }, []);
+
+  // Write the attachments into the sandbox and clear them
+  const uploadAttachments = React.useCallback(async (sandboxId: string): Promise<MessageAttachment[]> => {
+    if (attachments.length === 0) return [];
+
+    const formData = new FormData();
+    for (const attachment of attachments) {
+      formData.append('files', attachment.file);
+      formData.append('paths', attachment.path);
+    }
+
+    const response = await fetch(`/api/sandbox/${sandboxId}/uploads`, {
+      method: 'POST',
+      body: formData,
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || 'Failed to upload files');
+    }
+
+    const uploaded: MessageAttachment[] = await Promise.all(
+      (data.files as UploadedFile[]).map(async (file, index) => ({
+        ...file,
+        base64: file.mediaType.startsWith('image/')
+          ? await readAsBase64(attachments[index].file).catch(() => undefined)
+          : undefined,
+      }))
+    );
+    setAttachments([]);
+    return uploaded;
+  }, [attachments]);
+
+  return {
+    attachments,
+    addAttachments,
+    removeAttachment,
+    uploadAttachments,
+  };
+}
@@ -1,19 +1,27 @@
-import { useState } from 'react';
-import { SessionInfo, AITool } from '@/lib/ai-tools-config';
+import { useCallback, useRef, useState } from 'react';
+import { AITool } from '@/lib/ai-tools-config';
 import { useSessionStorage } from '@/hooks/use-session-storage';
 
 export function useChatSession(tool: AITool | undefined) {
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
-  const { saveSession: saveSessionToStorage } = useSessionStorage();
+  const { recordSessionTurn } = useSessionStorage();
+  // Turns are saved one after another, since each one rewrites the whole session list
+  const pendingRecord = useRef<Promise<void>>(Promise.resolve());
 
-  const saveSession = (sessionInfo: SessionInfo) => {
-    if (!tool) return;
-    saveSessionToStorage(sessionInfo);
-  };
+  // Save a finished turn to the session history
+  const recordTurn = useCallback((sessionId: string, sandboxId: string, turn: { prompt: string; costUsd?: number }) => {
+    if (!tool) return Promise.resolve();
+    pendingRecord.current = pendingRecord.current.then(() =>
+      recordSessionTurn({ sessionId, toolType: tool, sandboxId }, turn).catch((error) => {
+        console.error('Failed to save session:', error);
+      })
+    );
+    return pendingRecord.current;
+  }, [tool, recordSessionTurn]);
 
   return {
     currentSessionId,
     setCurrentSessionId,
-    saveSession,
+    recordTurn,
   };
-}
\ No newline at end of file
+}
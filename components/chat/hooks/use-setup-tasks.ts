@@ -1,12 +1,14 @@
 import { useState, useEffect } from 'react';
-import { SetupTask, TaskStatus } from '../../setup-status';
-import { getAIToolConfig } from '@/lib/ai-tools-config';
+import { SetupTask, TaskStatus, applySetupStepEvent } from '../../setup-status';
+import { isAITool, getAIToolConfig } from '@/lib/ai-tools-config';
+import { SetupStepEvent } from '@/lib/setup-steps';
 
 interface SandboxData {
   id: string | null;
   toolName?: string;
   tool?: string;
-  session?: { id: string | null };
+  session?: { id: string | null; resumed?: boolean };
+  repository?: { url: string };
   cursorCLI?: {
     cursorCLI?: {
       installed?: boolean;
@@ -29,23 +31,43 @@ interface SandboxData {
   };
 }
 
-export function useSetupTasks(sandbox: SandboxData, streamingMessages?: string) {
+export function useSetupTasks(sandbox: SandboxData, setupEvents?: SetupStepEvent[]) {
   const [setupTasks, setSetupTasks] = useState<SetupTask[]>([]);
 
   // Initialize and update setup tasks based on sandbox state
   useEffect(() => {
     if (!sandbox.id && sandbox.toolName) {
       // This means we're in the creation process - initialize setup tasks
-      const toolConfig = sandbox.tool ? getAIToolConfig(sandbox.tool as 'claude-code' | 'cursor-cli') : null;
+      const toolConfig = isAITool(sandbox.tool) ? getAIToolConfig(sandbox.tool) : null;
       const displayName = toolConfig?.displayName || sandbox.toolName;
       
       const initialTasks: SetupTask[] = [
         {
           id: "create-sandbox",
-          title: "Create Vercel Sandbox",
+          title: "Create Sandbox",
           status: "in-progress",
           description: "Initializing sandbox environment...",
         },
+        ...(sandbox.repository
+          ? [
+              {
+                id: "clone-repository",
+                title: "Clone Repository",
+                status: "pending" as TaskStatus,
+                description: sandbox.repository.url,
+              },
+            ]
+          : []),
+        ...(sandbox.session?.resumed
+          ? [
+              {
+                id: "restore-session",
+                title: "Restore Session",
+                status: "pending" as TaskStatus,
+                description: "Copying session files from the previous sandbox...",
+              },
+            ]
+          : []),
         {
           id: "install-tool",
           title: `Install ${displayName}`,
@@ -77,6 +99,15 @@ export function useSetupTasks(sandbox: SandboxData, streamingMessages?: string)
               status: "completed" as TaskStatus,
               description: `Sandbox created successfully`,
             };
+          } else if (task.id === "clone-repository") {
+            return {
+              ...task,
+              status: "completed" as TaskStatus,
+              description: sandbox.repository?.url ?? task.description,
+            };
+          } else if (task.id === "restore-session") {
+            // Keep the step's own message, which says whether there were files to restore
+            return { ...task, status: "completed" as TaskStatus };
           } else if (task.id === "install-tool") {
             if (hasError && !toolInstalled) {
               return {
@@ -135,113 +166,12 @@ export function useSetupTasks(sandbox: SandboxData, streamingMessages?: string)
     }
   }, [sandbox, setupTasks.length]);
 
-  // Parse streaming messages to update task status in real-time
+  // Apply structured progress events from the new-sandbox stream
   useEffect(() => {
-    if (!streamingMessages || setupTasks.length === 0) return;
+    if (!setupEvents || setupEvents.length === 0 || setupTasks.length === 0) return;
 
-    setSetupTasks((prev) =>
-      prev.map((task) => {
-        if (task.id === "create-sandbox") {
-          if (
-            streamingMessages.includes("✅ **Sandbox created successfully**")
-          ) {
-            return {
-              ...task,
-              status: "completed" as TaskStatus,
-              description: "Sandbox created successfully",
-            };
-          } else if (streamingMessages.includes("Creating Vercel Sandbox")) {
-            return {
-              ...task,
-              status: "in-progress" as TaskStatus,
-              description: "Creating sandbox environment...",
-            };
-          }
-        } else if (task.id === "install-tool") {
-          if (
-            streamingMessages.includes(
-              `✅ **${sandbox.toolName} installed successfully**`
-            )
-          ) {
-            return {
-              ...task,
-              status: "completed" as TaskStatus,
-              description: `${sandbox.toolName} installed successfully`,
-            };
-          } else if (
-            streamingMessages.includes(
-              `⚠️ **Installation completed with warnings**`
-            )
-          ) {
-            return {
-              ...task,
-              status: "completed" as TaskStatus,
-              description: "Installation completed with warnings",
-            };
-          } else if (
-            streamingMessages.includes(`Installing ${sandbox.toolName}`) ||
-            streamingMessages.includes(`📦 Installing ${sandbox.toolName}`)
-          ) {
-            return {
-              ...task,
-              status: "in-progress" as TaskStatus,
-              description: `Installing ${sandbox.toolName}...`,
-            };
-          } else if (
-            streamingMessages.includes("❌") &&
-            streamingMessages.includes("setup")
-          ) {
-            return {
-              ...task,
-              status: "failed" as TaskStatus,
-              error: "Installation failed",
-              description: "Installation failed",
-            };
-          }
-        } else if (task.id === "test-connection") {
-          if (
-            streamingMessages.includes(
-              `✅ **${sandbox.toolName} is working perfectly!**`
-            )
-          ) {
-            const promptMatch = streamingMessages.match(
-              /🔗 Tested with prompt: "([^"]+)"/
-            );
-            const prompt = promptMatch ? promptMatch[1] : "";
-            return {
-              ...task,
-              status: "completed" as TaskStatus,
-              description: "Request processed successfully",
-              details: prompt ? [`Working on: "${prompt}"`] : ["Ready to use"],
-            };
-          } else if (
-            streamingMessages.includes(`❌ **${sandbox.toolName} test failed**`)
-          ) {
-            return {
-              ...task,
-              status: "failed" as TaskStatus,
-              error: "Request processing failed",
-              description: "Request processing failed",
-            };
-          } else if (
-            streamingMessages.includes(
-              `Testing ${sandbox.toolName} Connection`
-            ) ||
-            streamingMessages.includes(
-              `🧪 Testing ${sandbox.toolName} Connection`
-            )
-          ) {
-            return {
-              ...task,
-              status: "in-progress" as TaskStatus,
-              description: "Processing your request...",
-            };
-          }
-        }
-        return task;
-      })
-    );
-  }, [streamingMessages, setupTasks.length, sandbox.toolName]);
+    setSetupTasks((prev) => setupEvents.reduce(applySetupStepEvent, prev));
+  }, [setupEvents, setupTasks.length]);
 
   return {
     setupTasks,
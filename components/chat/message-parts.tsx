@@ -0,0 +1,76 @@
+import React from "react";
+import { ToolCallData, ReasoningData } from "@/lib/ai-tools-config";
+import { Response } from "../ai-elements/response";
+import {
+  Tool,
+  ToolContent,
+  ToolHeader,
+  ToolInput,
+  ToolOutput,
+} from "../ai-elements/tool";
+import {
+  Reasoning,
+  ReasoningContent,
+  ReasoningTrigger,
+} from "../ai-elements/reasoning";
+
+// Steps of an agent turn, in the order the agent produced them
+export type AssistantMessagePart =
+  | { type: "text"; text: string }
+  | { type: "tool-call"; id: string; data: ToolCallData }
+  | { type: "reasoning"; id: string; data: ReasoningData };
+
+interface MessagePartsProps {
+  parts: AssistantMessagePart[];
+}
+
+export function MessageParts({ parts }: MessagePartsProps) {
+  return (
+    <>
+      {parts.map((part, index) => {
+        if (part.type === "tool-call") {
+          const { name, input, state, output, errorText } = part.data;
+          return (
+            <Tool key={part.id}>
+              <ToolHeader title={name} type={`tool-${name}`} state={state} />
+              <ToolContent>
+                <ToolInput input={input} />
+                <ToolOutput
+                  output={
+                    output && (
+                      <pre className="whitespace-pre-wrap p-4 font-mono">
+                        {output}
+                      </pre>
+                    )
+                  }
+                  errorText={errorText}
+                />
+              </ToolContent>
+            </Tool>
+          );
+        }
+
+        if (part.type === "reasoning") {
+          return (
+            <Reasoning key={part.id} duration={part.data.duration}>
+              <ReasoningTrigger />
+              <ReasoningContent>{part.data.text}</ReasoningContent>
+            </Reasoning>
+          );
+        }
+
+        if (!part.text.trim()) return null;
+
+        return (
+          <Response
+            key={`text-${index}`}
+            className="mb-4 rounded-lg bg-secondary text-foreground p-4 last:mb-0"
+            parseIncompleteMarkdown={true}
+          >
+            {part.text.trim()}
+          </Response>
+        );
+      })}
+    </>
+  );
+}
@@ -0,0 +1,113 @@
+import React, { useState } from "react";
+import { GitPullRequest, X } from "lucide-react";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Textarea } from "../ui/textarea";
+import { Loader } from "../ai-elements/loader";
+import type { RepositoryInfo } from "@/lib/repository";
+
+export interface CreatedPullRequest {
+  number: number;
+  url: string;
+  branch: string;
+  commit: string;
+  host: string;
+}
+
+interface PullRequestFormProps {
+  sandboxId: string;
+  repository: RepositoryInfo;
+  defaultTitle?: string;
+  onCreated: (pullRequest: CreatedPullRequest) => void;
+  onClose: () => void;
+}
+
+// Commit the sandbox's changes on a new branch and open a pull request for them
+export function PullRequestForm({ sandboxId, repository, defaultTitle, onCreated, onClose }: PullRequestFormProps) {
+  const [title, setTitle] = useState(defaultTitle?.split("\n")[0].slice(0, 72) || "Changes from the sandbox");
+  const [branch, setBranch] = useState(() => `cli-on-the-cloud/${Date.now().toString(36)}`);
+  const [body, setBody] = useState("");
+  const [token, setToken] = useState("");
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/sandbox/${sandboxId}/pull-request`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          baseBranch: repository.branch,
+          branch: branch.trim(),
+          title,
+          body,
+          token,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to create pull request");
+      }
+      onCreated(data.pullRequest);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to create pull request");
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="border-b bg-muted/30 px-4 py-3 space-y-2">
+      <div className="flex items-center gap-2 text-sm font-medium">
+        <GitPullRequest className="w-4 h-4" />
+        <span className="flex-1 truncate">
+          Create pull request into <span className="font-mono">{repository.branch}</span>
+        </span>
+        <Button type="button" variant="ghost" size="icon" className="h-7 w-7" onClick={onClose} title="Close">
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+      <Input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Title" aria-label="Title" disabled={isCreating} />
+      <div className="grid grid-cols-2 gap-2">
+        <Input
+          value={branch}
+          onChange={(e) => setBranch(e.target.value)}
+          placeholder="New branch"
+          aria-label="New branch"
+          className="font-mono"
+          disabled={isCreating}
+        />
+        <Input
+          type="password"
+          value={token}
+          onChange={(e) => setToken(e.target.value)}
+          placeholder="Access token with push access"
+          aria-label="Access token"
+          autoComplete="off"
+          disabled={isCreating}
+        />
+      </div>
+      <Textarea
+        value={body}
+        onChange={(e) => setBody(e.target.value)}
+        placeholder="Description (optional)"
+        aria-label="Description"
+        rows={2}
+        disabled={isCreating}
+      />
+      <div className="flex items-center gap-2">
+        {error && <span className="flex-1 text-sm text-destructive">{error}</span>}
+        <div className="flex-1" />
+        <Button type="submit" size="sm" disabled={isCreating || !title.trim() || !branch.trim() || !token.trim()}>
+          {isCreating ? <Loader size={14} /> : <GitPullRequest className="w-3 h-3" />}
+          {isCreating ? "Creating..." : "Create PR"}
+        </Button>
+      </div>
+    </form>
+  );
+}
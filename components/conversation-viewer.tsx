@@ -0,0 +1,95 @@
+"use client";
+
+import React, { useRef, useState } from "react";
+import Link from "next/link";
+import { ArrowLeft, Upload } from "lucide-react";
+import { TopBar } from "./top-bar";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { ChatMessages } from "./chat/chat-messages";
+import { ConversationExport, parseConversationExport } from "./chat/conversation-export";
+
+// Opens a conversation exported as JSON from the chat header, without a sandbox behind it
+export function ConversationViewer() {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [conversation, setConversation] = useState<ConversationExport | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = "";
+    if (!file) return;
+
+    const imported = parseConversationExport(await file.text());
+    if (!imported) {
+      setError(`${file.name} is not a conversation exported as JSON`);
+      return;
+    }
+    setError(null);
+    setConversation(imported);
+    setFileName(file.name);
+  };
+
+  const openButton = (
+    <Button variant={conversation ? "ghost" : "default"} size="sm" onClick={() => fileInput.current?.click()}>
+      <Upload className="w-4 h-4 mr-1" />
+      Open Export
+    </Button>
+  );
+
+  return (
+    <div className="flex h-screen flex-col">
+      <TopBar
+        title={conversation ? fileName ?? "Conversation" : "Import Conversation"}
+        subtitle={
+          conversation ? (
+            <>
+              <Badge variant="secondary">{conversation.toolName || conversation.tool || "Agent"}</Badge>
+              {conversation.sessionId && <span className="font-mono">{conversation.sessionId.slice(0, 8)}</span>}
+              <span>
+                {conversation.totals.turns} {conversation.totals.turns === 1 ? "turn" : "turns"}
+              </span>
+              <span>${conversation.totals.costUsd.toFixed(4)}</span>
+              <span>Exported {new Date(conversation.exportedAt).toLocaleString()}</span>
+            </>
+          ) : (
+            "A read-only view of a conversation exported from the chat"
+          )
+        }
+      >
+        <input ref={fileInput} type="file" accept="application/json,.json" className="hidden" onChange={handleFileChange} />
+        {conversation && openButton}
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/sessions">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            Sessions
+          </Link>
+        </Button>
+      </TopBar>
+
+      {conversation ? (
+        <div className="flex flex-1 flex-col overflow-hidden">
+          <ChatMessages
+            messages={conversation.messages}
+            setupTasks={[]}
+            toolName={conversation.toolName}
+            isTerminalMode={false}
+            error={error}
+          />
+        </div>
+      ) : (
+        <div className="flex flex-1 items-center justify-center p-6">
+          <div className="space-y-3 text-center">
+            <p className="text-sm text-muted-foreground max-w-md">
+              Choose a JSON file saved with Export as JSON in the chat header.
+            </p>
+            {openButton}
+            {error && <p className="text-sm text-destructive">{error}</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,11 +3,18 @@
 import React, { useState, useEffect, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { Square } from "lucide-react";
-import { AITool, getAllAITools, getAIToolConfig, SessionInfo } from "@/lib/ai-tools-config";
+import { AITool, getAIToolConfig, extractResultFromResponse, SessionInfo } from "@/lib/ai-tools-config";
 import { useApiKeys } from "@/hooks/use-api-keys";
+import { useAITools } from "@/hooks/use-ai-tools";
 import { useSandboxStorage, SandboxInfo } from "@/hooks/use-sandbox-storage";
 import { useSessionStorage } from "@/hooks/use-session-storage";
+import { useSessionStateStorage } from "@/hooks/use-session-state-storage";
 import { Loader } from "./ai-elements/loader";
+import { DEFAULT_SANDBOX_PORTS, MAX_SANDBOX_PORTS } from "@/lib/constants";
+import { RepositoryOptions, validateRepositoryOptions } from "@/lib/repository";
+
+// Prefilled when a session is resumed from the sessions page
+const RESUME_PROMPT = "Continue where we left off.";
 
 
 
@@ -24,6 +31,7 @@ export function CreateSandbox({ onSandboxCreated, onSandboxCreateStart, onStream
   const apiKeyStorage = useApiKeys();
   const sandboxStorage = useSandboxStorage();
   const sessionStorage = useSessionStorage();
+  const sessionStateStorage = useSessionStateStorage();
   
   const [isLoading, setIsLoading] = useState(false);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -39,10 +47,26 @@ export function CreateSandbox({ onSandboxCreated, onSandboxCreateStart, onStream
   const [resumeSession, setResumeSession] = useState(false);
   const [customPrompt, setCustomPrompt] = useState("hello");
   const [aliveTimeMinutes, setAliveTimeMinutes] = useState(5);
+  const [portsInput, setPortsInput] = useState(DEFAULT_SANDBOX_PORTS.join(", "));
+  const [repositoryUrl, setRepositoryUrl] = useState("");
+  const [repositoryBranch, setRepositoryBranch] = useState("");
+  const [repositoryToken, setRepositoryToken] = useState("");
   
-  const aiTools = getAllAITools();
+  // Session to select once the tool's sessions load, from the sessions page's ?resume= link
+  const linkedSessionId = React.useRef<string | null>(null);
+
+  const aiTools = useAITools();
   const currentToolConfig = getAIToolConfig(selectedTool);
 
+  // The sessions page also selects the session's tool before linking here
+  useEffect(() => {
+    const sessionId = new URLSearchParams(window.location.search).get("resume");
+    if (sessionId) {
+      linkedSessionId.current = sessionId;
+      setCustomPrompt(RESUME_PROMPT);
+    }
+  }, []);
+
   // Format time remaining as MM:SS
   const formatTime = useCallback((ms: number): string => {
     const totalSeconds = Math.max(0, Math.floor(ms / 1000));
@@ -108,52 +132,86 @@ export function CreateSandbox({ onSandboxCreated, onSandboxCreateStart, onStream
 
   // Load saved API key and tool selection on component mount
   React.useEffect(() => {
-    const savedTool = apiKeyStorage.getSelectedTool();
-    if (savedTool && ['claude-code', 'cursor-cli'].includes(savedTool)) {
-      setSelectedTool(savedTool);
-    }
-  }, [apiKeyStorage]);
+    const loadSelectedTool = async () => {
+      const savedTool = await apiKeyStorage.getSelectedTool();
+      // Custom agents load asynchronously, so re-check once they are registered
+      if (savedTool && aiTools.some((tool) => tool.value === savedTool)) {
+        setSelectedTool(savedTool);
+      }
+    };
+
+    loadSelectedTool().catch((error) => {
+      console.error('Failed to load selected tool:', error);
+    });
+  }, [apiKeyStorage, aiTools]);
 
   // Load saved API key when tool changes
   React.useEffect(() => {
-    const savedApiKey = apiKeyStorage.getApiKey(selectedTool);
-    if (savedApiKey) {
-      setApiKey(savedApiKey);
-    } else {
-      setApiKey(''); // Clear if no saved key for this tool
-    }
+    // Ignore results for a tool that is no longer selected
+    let cancelled = false;
+
+    const loadToolData = async () => {
+      const savedApiKey = await apiKeyStorage.getApiKey(selectedTool);
+      if (cancelled) return;
+      if (savedApiKey) {
+        setApiKey(savedApiKey);
+      } else {
+        setApiKey(''); // Clear if no saved key for this tool
+      }
 
-    // Load saved sessions for the current tool
-    const sessions = sessionStorage.getSessions(selectedTool);
-    setSavedSessions(sessions);
+      // Load saved sessions for the current tool
+      const sessions = await sessionStorage.getSessions(selectedTool);
+      if (cancelled) return;
+      setSavedSessions(sessions);
+      if (linkedSessionId.current && sessions.some((s) => s.sessionId === linkedSessionId.current)) {
+        setSelectedSessionId(linkedSessionId.current);
+        setResumeSession(true);
+        linkedSessionId.current = null;
+      }
+    };
+
+    loadToolData().catch((error) => {
+      console.error('Failed to load saved tool data:', error);
+    });
     
     // Reset session selection when tool changes
     setSelectedSessionId("");
     setResumeSession(false);
+
+    return () => {
+      cancelled = true;
+    };
   }, [selectedTool, apiKeyStorage, sessionStorage]);
 
   // Save API key to storage when it changes
   const handleApiKeyChange = (newApiKey: string) => {
     setApiKey(newApiKey);
-    if (newApiKey.trim()) {
-      apiKeyStorage.setApiKey(selectedTool, newApiKey);
-    } else {
-      apiKeyStorage.clearApiKey(selectedTool);
-    }
+    const saved = newApiKey.trim()
+      ? apiKeyStorage.setApiKey(selectedTool, newApiKey)
+      : apiKeyStorage.clearApiKey(selectedTool);
+    saved.catch((error) => {
+      console.error('Failed to save API key:', error);
+    });
   };
 
   // Save tool selection to storage when it changes
   const handleToolChange = (newTool: AITool) => {
     setSelectedTool(newTool);
-    apiKeyStorage.setSelectedTool(newTool);
+    apiKeyStorage.setSelectedTool(newTool).catch((error) => {
+      console.error('Failed to save tool selection:', error);
+    });
   };
 
   // Save session to storage
-  const saveSession = (sessionInfo: SessionInfo) => {
-    sessionStorage.saveSession(sessionInfo);
-    // Update local state
-    const updatedSessions = sessionStorage.getSessions(selectedTool);
-    setSavedSessions(updatedSessions);
+  const saveSession = async (sessionInfo: SessionInfo) => {
+    try {
+      await sessionStorage.saveSession(sessionInfo);
+      // Update local state
+      const updatedSessions = await sessionStorage.getSessions(selectedTool);
+      setSavedSessions(updatedSessions);
+    } catch (error) {
+      console.error('Failed to save session:', error);
+    }
   };
 
   // Helper function to format output (JSON if possible, otherwise plain text)
@@ -183,51 +241,13 @@ export function CreateSandbox({ onSandboxCreated, onSandboxCreateStart, onStream
       return;
     }
 
-    // Find the selected session info
-    const selectedSession = savedSessions.find(s => s.sessionId === selectedSessionId);
-    if (!selectedSession) {
+    if (!savedSessions.some(s => s.sessionId === selectedSessionId)) {
       setErrorMessage("Selected session not found");
       return;
     }
 
-    // Create a mock sandbox object for the existing session
-    const mockSandbox: SandboxInfo = {
-      id: selectedSession.sandboxId,
-      createdAt: selectedSession.createdAt,
-      tool: selectedTool,
-      toolName: currentToolConfig.displayName,
-      session: {
-        id: selectedSession.sessionId,
-        resumed: true,
-        requestedSessionId: selectedSession.sessionId
-      },
-      // Mock the cursorCLI structure to indicate it's ready
-      cursorCLI: {
-        cursorCLI: {
-          installed: true,
-          version: null,
-          error: null
-        },
-        environment: {
-          configured: true,
-          error: null
-        }
-      }
-    };
-
-    setSandbox(mockSandbox);
-
-    // Update session last used time
-    const updatedSessionInfo: SessionInfo = {
-      ...selectedSession,
-      lastUsedAt: new Date().toISOString()
-    };
-    saveSession(updatedSessionInfo);
-
-    // Notify parent component to switch to chat mode
-    if (onSandboxCreated) {
-      onSandboxCreated(mockSandbox, apiKey.trim());
-    }
+    // The session's files are restored into a new sandbox, since the one it ran in has usually stopped
+    await handleCreateSandboxClick();
   }
 
   async function handleCreateSandboxClick() {
@@ -236,6 +256,29 @@ export function CreateSandbox({ onSandboxCreated, onSandboxCreateStart, onStream
       return;
     }
 
+    const ports = portsInput.split(",").map((port) => port.trim()).filter(Boolean).map(Number);
+    if (
+      ports.length > MAX_SANDBOX_PORTS ||
+      !ports.every((port) => Number.isInteger(port) && port >= 1 && port <= 65535)
+    ) {
+      setErrorMessage(`Enter up to ${MAX_SANDBOX_PORTS} port numbers, separated by commas`);
+      return;
+    }
+
+    let repository: RepositoryOptions | undefined;
+    if (repositoryUrl.trim()) {
+      repository = {
+        url: repositoryUrl.trim(),
+        branch: repositoryBranch.trim() || undefined,
+        token: repositoryToken.trim() || undefined,
+      };
+      const repositoryError = validateRepositoryOptions(repository);
+      if (repositoryError) {
+        setErrorMessage(repositoryError);
+        return;
+      }
+    }
+
     setIsLoading(true);
     setErrorMessage(null);
     setSandbox(null);
@@ -251,9 +294,11 @@ export function CreateSandbox({ onSandboxCreated, onSandboxCreateStart, onStream
       resumeSession,
       sessionId: selectedSessionId,
       aliveTimeMinutes,
+      ports,
+      repository,
       createdAt: new Date().toISOString(),
     };
-    sandboxStorage.setCreationState(creationState);
+    await sandboxStorage.setCreationState(creationState);
 
     // Navigate immediately to chat page with temporary ID
     const tempId = `creating-${Date.now()}`;
@@ -265,6 +310,14 @@ export function CreateSandbox({ onSandboxCreated, onSandboxCreateStart, onStream
     }
 
     try {
+      const selectedSession = resumeSession ? savedSessions.find(s => s.sessionId === selectedSessionId) : undefined;
+      const sessionState = selectedSession
+        ? await sessionStateStorage.findSessionState(selectedSession).catch((error) => {
+            console.error('Failed to load session state:', error);
+            return null;
+          })
+        : null;
+
       const response = await fetch("/api/new-sandbox", { 
         method: "POST",
         headers: {
@@ -276,7 +329,10 @@ export function CreateSandbox({ onSandboxCreated, onSandboxCreateStart, onStream
           prompt: customPrompt,
           resumeSession: resumeSession,
           sessionId: selectedSessionId || undefined,
-          aliveTimeMinutes: aliveTimeMinutes
+          aliveTimeMinutes: aliveTimeMinutes,
+          ports,
+          repository,
+          sessionState: sessionState ?? undefined
         })
       });
 
@@ -339,7 +395,7 @@ export function CreateSandbox({ onSandboxCreated, onSandboxCreateStart, onStream
               new Date().toISOString(),
             lastUsedAt: new Date().toISOString()
           };
-          saveSession(sessionInfo);
+          await saveSession(sessionInfo);
         }
 
         // Notify parent component about successful creation
@@ -349,8 +405,8 @@ export function CreateSandbox({ onSandboxCreated, onSandboxCreateStart, onStream
 
         // Update the URL to the actual sandbox ID and store the sandbox data
         if (sandboxData.id) {
-          sandboxStorage.setSandbox(sandboxData);
-          sandboxStorage.clearCreationState();
+          await sandboxStorage.setSandbox(sandboxData);
+          await sandboxStorage.clearCreationState();
           router.replace(`/chat/${sandboxData.id}`);
         }
       }
@@ -403,7 +459,7 @@ export function CreateSandbox({ onSandboxCreated, onSandboxCreateStart, onStream
             type="password"
             value={apiKey}
             onChange={(e) => handleApiKeyChange(e.target.value)}
-            placeholder={selectedTool === 'claude-code' ? 'sk-ant-xxx...' : 'cur_xxx...'}
+            placeholder={currentToolConfig.apiKeyPlaceholder}
             className="w-full px-3 py-2 border border-input bg-background text-foreground rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
             disabled={isLoading}
           />
@@ -454,6 +510,67 @@ export function CreateSandbox({ onSandboxCreated, onSandboxCreateStart, onStream
           </p>
         </div>
 
+        <div className="space-y-2">
+          <label htmlFor="ports" className="text-sm font-medium text-foreground">
+            Preview Ports
+          </label>
+          <input
+            id="ports"
+            type="text"
+            value={portsInput}
+            onChange={(e) => setPortsInput(e.target.value)}
+            placeholder="3000, 5173"
+            className="w-full px-3 py-2 border border-input bg-background text-foreground rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
+            disabled={isLoading}
+          />
+          <p className="text-xs text-muted-foreground">
+            Ports a dev server can listen on to be previewed from the chat
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="repository-url" className="text-sm font-medium text-foreground">
+            Git Repository (optional)
+          </label>
+          <input
+            id="repository-url"
+            type="text"
+            value={repositoryUrl}
+            onChange={(e) => setRepositoryUrl(e.target.value)}
+            placeholder="https://github.com/owner/repo.git"
+            className="w-full px-3 py-2 border border-input bg-background text-foreground rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
+            disabled={isLoading}
+          />
+          {repositoryUrl.trim() && (
+            <div className="grid grid-cols-2 gap-2">
+              <input
+                id="repository-branch"
+                type="text"
+                value={repositoryBranch}
+                onChange={(e) => setRepositoryBranch(e.target.value)}
+                placeholder="Branch (default branch)"
+                aria-label="Branch"
+                className="w-full px-3 py-2 border border-input bg-background text-foreground rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
+                disabled={isLoading}
+              />
+              <input
+                id="repository-token"
+                type="password"
+                value={repositoryToken}
+                onChange={(e) => setRepositoryToken(e.target.value)}
+                placeholder="Access token (private repos)"
+                aria-label="Access token"
+                autoComplete="off"
+                className="w-full px-3 py-2 border border-input bg-background text-foreground rounded-md focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
+                disabled={isLoading}
+              />
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground">
+            Cloned into the sandbox before the initial prompt, and used as the agent&apos;s working directory
+          </p>
+        </div>
+
         <div className="space-y-3">
           <div className="flex items-center gap-2">
             <input
@@ -484,7 +601,7 @@ export function CreateSandbox({ onSandboxCreated, onSandboxCreateStart, onStream
                 <option value="">Continue latest session</option>
                 {savedSessions.map((session) => (
                   <option key={session.sessionId} value={session.sessionId}>
-                    {session.sessionId.slice(0, 8)}... (Last used: {new Date(session.lastUsedAt).toLocaleDateString()})
+                    {session.title ? `${session.title.slice(0, 40)} - ` : ""}{session.sessionId.slice(0, 8)}... (Last used: {new Date(session.lastUsedAt).toLocaleDateString()})
                   </option>
                 ))}
               </select>
@@ -677,9 +794,9 @@ export function CreateSandbox({ onSandboxCreated, onSandboxCreateStart, onStream
                     {sandbox.cursorCLI.cursorCLI.promptOutput.parsedJson && (
                       <div className="p-3 bg-green-50 border border-green-200 rounded">
                         <div className="text-xs font-medium text-green-700 mb-2">AI Response</div>
-                        {sandbox.cursorCLI.cursorCLI.promptOutput.parsedJson.result ? (
+                        {sandbox.tool && extractResultFromResponse(sandbox.tool, sandbox.cursorCLI.cursorCLI.promptOutput.parsedJson) ? (
                           <div className="text-sm text-green-800">
-                            {String(sandbox.cursorCLI.cursorCLI.promptOutput.parsedJson.result)}
+                            {extractResultFromResponse(sandbox.tool, sandbox.cursorCLI.cursorCLI.promptOutput.parsedJson)}
                           </div>
                         ) : null}
                         {sandbox.cursorCLI.cursorCLI.promptOutput.parsedJson.duration_ms ? (
@@ -0,0 +1,271 @@
+"use client";
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import { ChevronDown, ChevronRight, FileIcon, FolderIcon, RotateCw, X } from "lucide-react";
+import { CodeBlock, CodeBlockCopyButton } from "./ai-elements/code-block";
+import { Loader } from "./ai-elements/loader";
+import { Button } from "./ui/button";
+import { cn } from "@/lib/utils";
+import type { FileEntry } from "@/lib/sandbox/files";
+
+const ROOT_PATH = ".";
+
+// Prism language names by file extension
+const LANGUAGES: Record<string, string> = {
+  ts: "typescript",
+  tsx: "tsx",
+  js: "javascript",
+  mjs: "javascript",
+  cjs: "javascript",
+  jsx: "jsx",
+  json: "json",
+  md: "markdown",
+  py: "python",
+  sh: "bash",
+  bash: "bash",
+  css: "css",
+  scss: "scss",
+  html: "markup",
+  xml: "markup",
+  svg: "markup",
+  yml: "yaml",
+  yaml: "yaml",
+  toml: "toml",
+  go: "go",
+  rs: "rust",
+  java: "java",
+  rb: "ruby",
+  sql: "sql",
+};
+
+function getLanguage(filePath: string): string {
+  const name = filePath.split("/").pop() ?? "";
+  if (name === "Dockerfile") return "docker";
+  const extension = name.includes(".") ? name.split(".").pop()!.toLowerCase() : "";
+  return LANGUAGES[extension] ?? "text";
+}
+
+interface OpenFile {
+  path: string;
+  content: string | null;
+  binary?: boolean;
+  error?: string;
+}
+
+interface FileBrowserProps {
+  sandboxId: string;
+  // Changes whenever the sandbox's files may have changed, e.g. after an agent turn
+  refreshKey: number;
+  disabled?: boolean;
+  onClose?: () => void;
+  className?: string;
+}
+
+export function FileBrowser({ sandboxId, refreshKey, disabled = false, onClose, className }: FileBrowserProps) {
+  const [directories, setDirectories] = useState<Record<string, FileEntry[]>>({});
+  const [expanded, setExpanded] = useState<Set<string>>(new Set([ROOT_PATH]));
+  const [loadingPaths, setLoadingPaths] = useState<Set<string>>(new Set());
+  const [openFile, setOpenFile] = useState<OpenFile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Read during refreshes without re-running the refresh effect
+  const state = useRef({ expanded, openFile });
+  state.current = { expanded, openFile };
+
+  const fetchPath = useCallback(
+    async (filePath: string) => {
+      const response = await fetch(
+        `/api/sandbox/${sandboxId}/files?path=${encodeURIComponent(filePath)}`
+      );
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `Failed to read ${filePath}`);
+      }
+      return data;
+    },
+    [sandboxId]
+  );
+
+  const loadDirectory = useCallback(
+    async (dirPath: string) => {
+      setLoadingPaths((prev) => new Set(prev).add(dirPath));
+      try {
+        const data = await fetchPath(dirPath);
+        setDirectories((prev) => ({ ...prev, [dirPath]: data.entries }));
+        setError(null);
+      } catch (error) {
+        console.error(`Failed to list ${dirPath}:`, error);
+        if (dirPath === ROOT_PATH) {
+          setError(error instanceof Error ? error.message : "Failed to list files");
+        } else {
+          // The directory is gone, so collapse it
+          setExpanded((prev) => {
+            const next = new Set(prev);
+            next.delete(dirPath);
+            return next;
+          });
+        }
+      }
+      setLoadingPaths((prev) => {
+        const next = new Set(prev);
+        next.delete(dirPath);
+        return next;
+      });
+    },
+    [fetchPath]
+  );
+
+  const loadFile = useCallback(
+    async (filePath: string) => {
+      try {
+        const data = await fetchPath(filePath);
+        setOpenFile({ path: filePath, content: data.content, binary: data.binary });
+      } catch (error) {
+        setOpenFile({
+          path: filePath,
+          content: null,
+          error: error instanceof Error ? error.message : "Failed to read file",
+        });
+      }
+    },
+    [fetchPath]
+  );
+
+  // Reload everything that is visible
+  const refresh = useCallback(() => {
+    for (const dirPath of state.current.expanded) {
+      loadDirectory(dirPath);
+    }
+    if (state.current.openFile) {
+      loadFile(state.current.openFile.path);
+    }
+  }, [loadDirectory, loadFile]);
+
+  useEffect(() => {
+    if (!disabled) refresh();
+  }, [refreshKey, disabled, refresh]);
+
+  const toggleDirectory = (dirPath: string) => {
+    const isExpanded = expanded.has(dirPath);
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (isExpanded) {
+        next.delete(dirPath);
+      } else {
+        next.add(dirPath);
+      }
+      return next;
+    });
+    if (!isExpanded) {
+      loadDirectory(dirPath);
+    }
+  };
+
+  const renderEntries = (dirPath: string, depth: number): React.ReactNode => {
+    const entries = directories[dirPath];
+    if (!entries) {
+      return loadingPaths.has(dirPath) ? (
+        <div className="py-1 text-xs text-muted-foreground" style={{ paddingLeft: depth * 12 + 8 }}>
+          Loading...
+        </div>
+      ) : null;
+    }
+    if (entries.length === 0) {
+      return (
+        <div className="py-1 text-xs text-muted-foreground" style={{ paddingLeft: depth * 12 + 8 }}>
+          Empty
+        </div>
+      );
+    }
+
+    return entries.map((entry) => {
+      const isDirectory = entry.type === "directory";
+      const isExpanded = expanded.has(entry.path);
+      return (
+        <div key={entry.path}>
+          <button
+            type="button"
+            onClick={() => (isDirectory ? toggleDirectory(entry.path) : loadFile(entry.path))}
+            className={cn(
+              "flex w-full items-center gap-1 rounded-sm py-0.5 pr-2 text-left text-sm hover:bg-muted/50",
+              openFile?.path === entry.path && "bg-muted"
+            )}
+            style={{ paddingLeft: depth * 12 + 4 }}
+            title={entry.path}
+          >
+            {isDirectory ? (
+              <>
+                {isExpanded ? <ChevronDown className="size-3 shrink-0" /> : <ChevronRight className="size-3 shrink-0" />}
+                <FolderIcon className="size-4 shrink-0 text-blue-500" />
+              </>
+            ) : (
+              <>
+                <span className="size-3 shrink-0" />
+                <FileIcon className="size-4 shrink-0 text-muted-foreground" />
+              </>
+            )}
+            <span className="truncate">{entry.name}</span>
+          </button>
+          {isDirectory && isExpanded && renderEntries(entry.path, depth + 1)}
+        </div>
+      );
+    });
+  };
+
+  return (
+    <div className={cn("flex flex-col overflow-hidden rounded-lg border bg-card", className)}>
+      <div className="flex items-center gap-1 border-b p-2">
+        <span className="flex-1 text-sm font-medium">Files</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0"
+          onClick={refresh}
+          disabled={disabled}
+          title="Refresh"
+        >
+          {loadingPaths.has(ROOT_PATH) ? <Loader size={14} /> : <RotateCw className="size-4" />}
+        </Button>
+        {onClose && (
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onClose} title="Hide Files">
+            <X className="size-4" />
+          </Button>
+        )}
+      </div>
+
+      <div className={cn("overflow-auto p-1", openFile ? "max-h-[40%] shrink-0" : "flex-1")}>
+        {error ? <p className="p-2 text-xs text-destructive">{error}</p> : renderEntries(ROOT_PATH, 0)}
+      </div>
+
+      {openFile && (
+        <div className="flex min-h-0 flex-1 flex-col border-t">
+          <div className="flex items-center gap-1 px-2 py-1">
+            <span className="flex-1 truncate font-mono text-xs text-muted-foreground" title={openFile.path}>
+              {openFile.path}
+            </span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => setOpenFile(null)}
+              title="Close File"
+            >
+              <X className="size-3" />
+            </Button>
+          </div>
+          <div className="flex-1 overflow-auto px-2 pb-2">
+            {openFile.error ? (
+              <p className="text-xs text-destructive">{openFile.error}</p>
+            ) : openFile.binary || openFile.content === null ? (
+              <p className="text-xs text-muted-foreground">Binary file not shown</p>
+            ) : (
+              <CodeBlock code={openFile.content} language={getLanguage(openFile.path)} showLineNumbers>
+                <CodeBlockCopyButton />
+              </CodeBlock>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
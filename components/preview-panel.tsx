@@ -0,0 +1,300 @@
+"use client";
+
+import React, { useCallback, useEffect, useState } from "react";
+import Anser from "anser";
+import { ExternalLink, Play, RotateCw, Square, X } from "lucide-react";
+import {
+  WebPreview,
+  WebPreviewBody,
+  WebPreviewConsole,
+  WebPreviewNavigation,
+  WebPreviewNavigationButton,
+  WebPreviewUrl,
+} from "./ai-elements/web-preview";
+import { Button } from "./ui/button";
+import { cn } from "@/lib/utils";
+import type { SandboxPort } from "@/lib/sandbox/types";
+import type { BackgroundProcess } from "@/lib/sandbox/processes";
+
+// Keep the console pane bounded for chatty dev servers
+const MAX_CONSOLE_LINES = 500;
+const PROCESS_POLL_INTERVAL_MS = 5000;
+
+type ConsoleLog = {
+  level: "log" | "warn" | "error";
+  message: string;
+  timestamp: Date;
+};
+
+interface PreviewPanelProps {
+  sandboxId: string;
+  disabled?: boolean;
+  onClose?: () => void;
+  className?: string;
+}
+
+export function PreviewPanel({ sandboxId, disabled = false, onClose, className }: PreviewPanelProps) {
+  const [ports, setPorts] = useState<SandboxPort[]>([]);
+  const [selectedPort, setSelectedPort] = useState<number | null>(null);
+  const [processes, setProcesses] = useState<BackgroundProcess[]>([]);
+  const [selectedCmdId, setSelectedCmdId] = useState<string | null>(null);
+  const [logs, setLogs] = useState<ConsoleLog[]>([]);
+  const [command, setCommand] = useState("npm run dev");
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const previewUrl = ports.find((entry) => entry.port === selectedPort)?.url ?? "";
+  const [urlInput, setUrlInput] = useState(previewUrl);
+  useEffect(() => setUrlInput(previewUrl), [previewUrl]);
+
+  const loadProcesses = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/sandbox/${sandboxId}/commands`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to list background processes");
+      }
+      setProcesses(data.processes);
+    } catch (error) {
+      console.error("Failed to list background processes:", error);
+    }
+  }, [sandboxId]);
+
+  // Load the exposed ports once, and keep the process list fresh while the panel is open
+  useEffect(() => {
+    if (disabled) return;
+
+    fetch(`/api/sandbox/${sandboxId}/ports`)
+      .then((response) => response.json())
+      .then((data) => {
+        if (!data.success) throw new Error(data.error || "Failed to list ports");
+        setPorts(data.ports);
+        setSelectedPort((current) => current ?? data.ports[0]?.port ?? null);
+      })
+      .catch((error) => {
+        console.error("Failed to list sandbox ports:", error);
+        setError(error instanceof Error ? error.message : "Failed to list ports");
+      });
+
+    loadProcesses();
+    const interval = setInterval(loadProcesses, PROCESS_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [sandboxId, disabled, loadProcesses]);
+
+  // Follow the selected process's output in the console pane
+  useEffect(() => {
+    setLogs([]);
+    if (!selectedCmdId || disabled) return;
+
+    const abortController = new AbortController();
+    const partialLines = { stdout: "", stderr: "" };
+
+    const appendOutput = (stream: "stdout" | "stderr", data: string) => {
+      const lines = (partialLines[stream] + Anser.ansiToText(data)).split("\n");
+      partialLines[stream] = lines.pop() ?? "";
+      const entries = lines
+        .filter((line) => line.trim())
+        .map((line): ConsoleLog => ({
+          level: stream === "stderr" ? "error" : "log",
+          message: line,
+          timestamp: new Date(),
+        }));
+      if (entries.length > 0) {
+        setLogs((prev) => [...prev, ...entries].slice(-MAX_CONSOLE_LINES));
+      }
+    };
+
+    const follow = async () => {
+      const response = await fetch(`/api/sandbox/${sandboxId}/commands/${selectedCmdId}`, {
+        signal: abortController.signal,
+      });
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        appendOutput("stderr", `${data.error || "Output is no longer available"}\n`);
+        return;
+      }
+
+      const reader = response.body?.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      while (reader) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+          if (!line.startsWith("data: ")) continue;
+          const event = JSON.parse(line.slice(6));
+          if (event.type === "output") {
+            appendOutput(event.stream, event.data);
+          } else if (event.type === "exit") {
+            appendOutput("stdout", `${partialLines.stdout ? "\n" : ""}[process exited with code ${event.exitCode}]\n`);
+            loadProcesses();
+          } else if (event.type === "error") {
+            appendOutput("stderr", `${event.error}\n`);
+          }
+        }
+      }
+    };
+
+    follow().catch((error) => {
+      if (abortController.signal.aborted) return;
+      console.error("Failed to follow process output:", error);
+    });
+    return () => abortController.abort();
+  }, [sandboxId, selectedCmdId, disabled, loadProcesses]);
+
+  const handleStart = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!command.trim() || isStarting) return;
+
+    setIsStarting(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/sandbox/${sandboxId}/commands`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ command }),
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || "Failed to start command");
+      }
+      setSelectedCmdId(data.process.cmdId);
+      await loadProcesses();
+    } catch (error) {
+      console.error("Failed to start background command:", error);
+      setError(error instanceof Error ? error.message : "Failed to start command");
+    }
+    setIsStarting(false);
+  };
+
+  const handleKill = async (cmdId: string) => {
+    try {
+      const response = await fetch(`/api/sandbox/${sandboxId}/commands/${cmdId}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to kill command");
+      }
+      await loadProcesses();
+    } catch (error) {
+      console.error("Failed to kill background command:", error);
+      setError(error instanceof Error ? error.message : "Failed to kill command");
+    }
+  };
+
+  return (
+    <WebPreview key={previewUrl} defaultUrl={previewUrl} className={cn("overflow-hidden", className)}>
+      <WebPreviewNavigation>
+        <WebPreviewNavigationButton tooltip="Reload" onClick={() => setReloadKey((key) => key + 1)}>
+          <RotateCw className="size-4" />
+        </WebPreviewNavigationButton>
+        {ports.length > 0 && (
+          <select
+            value={selectedPort ?? ""}
+            onChange={(e) => setSelectedPort(Number(e.target.value))}
+            className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+            title="Port"
+          >
+            {ports.map((entry) => (
+              <option key={entry.port} value={entry.port}>
+                :{entry.port}
+              </option>
+            ))}
+          </select>
+        )}
+        <WebPreviewUrl value={urlInput} onChange={(e) => setUrlInput(e.target.value)} />
+        <WebPreviewNavigationButton
+          tooltip="Open in new tab"
+          disabled={!previewUrl}
+          onClick={() => window.open(urlInput || previewUrl, "_blank", "noopener,noreferrer")}
+        >
+          <ExternalLink className="size-4" />
+        </WebPreviewNavigationButton>
+        {onClose && (
+          <WebPreviewNavigationButton tooltip="Close preview" onClick={onClose}>
+            <X className="size-4" />
+          </WebPreviewNavigationButton>
+        )}
+      </WebPreviewNavigation>
+
+      {previewUrl ? (
+        <WebPreviewBody key={reloadKey} className="bg-white" />
+      ) : (
+        <div className="flex flex-1 items-center justify-center p-4 text-center text-sm text-muted-foreground">
+          No ports were exposed when this sandbox was created
+        </div>
+      )}
+
+      {/* Background processes, e.g. the dev server serving the preview */}
+      <div className="space-y-2 border-t p-2">
+        <form onSubmit={handleStart} className="flex items-center gap-1">
+          <input
+            value={command}
+            onChange={(e) => setCommand(e.target.value)}
+            placeholder="Command to run in the background"
+            className="h-8 flex-1 rounded-md border border-input bg-background px-2 font-mono text-sm"
+            disabled={disabled || isStarting}
+          />
+          <Button type="submit" size="sm" className="h-8" disabled={disabled || isStarting || !command.trim()}>
+            <Play className="size-3" />
+            Start
+          </Button>
+        </form>
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {processes.length > 0 && (
+          <div className="max-h-32 space-y-1 overflow-y-auto">
+            {processes.map((backgroundProcess) => (
+              <div
+                key={backgroundProcess.cmdId}
+                className={cn(
+                  "flex items-center gap-2 rounded-md px-2 py-1 text-xs",
+                  backgroundProcess.cmdId === selectedCmdId ? "bg-muted" : "hover:bg-muted/50"
+                )}
+              >
+                <button
+                  type="button"
+                  className="flex-1 truncate text-left font-mono"
+                  onClick={() => setSelectedCmdId(backgroundProcess.cmdId)}
+                  title="Show output in the console"
+                >
+                  {backgroundProcess.command}
+                </button>
+                {backgroundProcess.exitCode === null ? (
+                  <>
+                    <span className="text-green-600">running</span>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-muted-foreground hover:text-destructive"
+                      onClick={() => handleKill(backgroundProcess.cmdId)}
+                      disabled={disabled}
+                      title="Kill process"
+                    >
+                      <Square className="size-3" />
+                    </Button>
+                  </>
+                ) : (
+                  <span className="text-muted-foreground">exited ({backgroundProcess.exitCode})</span>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <WebPreviewConsole logs={logs} />
+    </WebPreview>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import React, { useEffect, useRef } from "react";
+import "@xterm/xterm/css/xterm.css";
+import { cn } from "@/lib/utils";
+import type { PtySession } from "@/lib/sandbox/pty";
+
+interface SandboxTerminalProps {
+  sandboxId: string;
+  // Kept by the parent so the shell survives switching back to chat mode
+  session: PtySession | null;
+  onSessionChange: (session: PtySession | null) => void;
+  // Called when no interactive shell can be started in this sandbox
+  onUnavailable: (error: string) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function SandboxTerminal({
+  sandboxId,
+  session,
+  onSessionChange,
+  onUnavailable,
+  disabled = false,
+  className,
+}: SandboxTerminalProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const callbacks = useRef({ onSessionChange, onUnavailable });
+  callbacks.current = { onSessionChange, onUnavailable };
+  const initialSession = useRef(session);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || disabled) return;
+
+    const abortController = new AbortController();
+    const { signal } = abortController;
+    let cleanup = () => {};
+
+    const run = async () => {
+      // xterm touches the DOM on import, so load it on the client only
+      const [{ Terminal }, { FitAddon }] = await Promise.all([
+        import("@xterm/xterm"),
+        import("@xterm/addon-fit"),
+      ]);
+      if (signal.aborted) return;
+
+      const terminal = new Terminal({
+        cursorBlink: true,
+        fontFamily: "ui-monospace, SFMono-Regular, Menlo, monospace",
+        fontSize: 13,
+        theme: { background: "#0a0a0a" },
+      });
+      const fitAddon = new FitAddon();
+      terminal.loadAddon(fitAddon);
+      terminal.open(container);
+      fitAddon.fit();
+      terminal.focus();
+
+      const resizeObserver = new ResizeObserver(() => fitAddon.fit());
+      resizeObserver.observe(container);
+      cleanup = () => {
+        resizeObserver.disconnect();
+        terminal.dispose();
+      };
+
+      let current = initialSession.current;
+      if (!current) {
+        const response = await fetch(`/api/sandbox/${sandboxId}/pty`, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ cols: terminal.cols, rows: terminal.rows }),
+          signal,
+        });
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          callbacks.current.onUnavailable(data.error || "Failed to start terminal");
+          return;
+        }
+        current = { ptyId: data.ptyId, cmdId: data.cmdId };
+        initialSession.current = current;
+        callbacks.current.onSessionChange(current);
+      }
+      const ptyUrl = `/api/sandbox/${sandboxId}/pty/${current.ptyId}`;
+      const { cmdId } = current;
+
+      const post = (body: Record<string, unknown>) =>
+        fetch(ptyUrl, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ...body, cmdId }),
+          signal,
+        });
+
+      // Every request runs a command in the sandbox, so keystrokes typed while one
+      // is in flight are batched into the next request, which also keeps them in order.
+      let pendingInput = "";
+      let isSending = false;
+      const flushInput = async () => {
+        if (isSending || !pendingInput) return;
+        isSending = true;
+        const data = pendingInput;
+        pendingInput = "";
+        try {
+          await post({ type: "input", data });
+        } catch (error) {
+          if (!signal.aborted) console.error("Failed to send terminal input:", error);
+        }
+        isSending = false;
+        flushInput();
+      };
+      terminal.onData((data) => {
+        pendingInput += data;
+        flushInput();
+      });
+
+      let resizeTimer: ReturnType<typeof setTimeout> | undefined;
+      terminal.onResize(({ cols, rows }) => {
+        clearTimeout(resizeTimer);
+        resizeTimer = setTimeout(() => {
+          post({ type: "resize", cols, rows }).catch(() => {});
+        }, 200);
+      });
+      // The shell may have been started at a different size
+      post({ type: "resize", cols: terminal.cols, rows: terminal.rows }).catch(() => {});
+
+      // The stream replays the whole session, so reattaching restores the screen
+      const response = await fetch(`${ptyUrl}?cmdId=${encodeURIComponent(current.cmdId)}`, { signal });
+      if (!response.ok) {
+        // The shell is gone (e.g. the server restarted), so start a new one next time
+        terminal.write("\r\n\x1b[31m[terminal session ended]\x1b[0m\r\n");
+        initialSession.current = null;
+        callbacks.current.onSessionChange(null);
+        return;
+      }
+
+      const reader = response.body?.getReader();
+      const decoder = new TextDecoder();
+      let buffer = "";
+      while (reader) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() ?? "";
+
+        for (const line of lines) {
+          if (!line.startsWith("data: ")) continue;
+          const event = JSON.parse(line.slice(6));
+          if (event.type === "output") {
+            terminal.write(event.data);
+          } else if (event.type === "exit") {
+            terminal.write(`\r\n\x1b[90m[process exited with code ${event.exitCode}]\x1b[0m\r\n`);
+            initialSession.current = null;
+            callbacks.current.onSessionChange(null);
+          } else if (event.type === "error") {
+            terminal.write(`\r\n\x1b[31m[${event.error}]\x1b[0m\r\n`);
+          }
+        }
+      }
+    };
+
+    run().catch((error) => {
+      if (signal.aborted) return;
+      console.error("Terminal error:", error);
+      callbacks.current.onUnavailable(error instanceof Error ? error.message : "Terminal failed");
+    });
+
+    return () => {
+      abortController.abort();
+      cleanup();
+    };
+  }, [sandboxId, disabled]);
+
+  return (
+    <div
+      className={cn("h-full w-full overflow-hidden rounded-lg bg-[#0a0a0a] p-2", className)}
+    >
+      <div ref={containerRef} className="h-full w-full" />
+    </div>
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { ArrowLeft, MessageSquare, Play, Search, Upload } from "lucide-react";
+import { AITool, SessionInfo, isAITool } from "@/lib/ai-tools-config";
+import { useAITools } from "@/hooks/use-ai-tools";
+import { useApiKeys } from "@/hooks/use-api-keys";
+import { useSessionStorage } from "@/hooks/use-session-storage";
+import { useTranscriptStorage } from "@/hooks/use-transcript-storage";
+import { TopBar } from "./top-bar";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Badge } from "./ui/badge";
+import { Loader } from "./ai-elements/loader";
+import { getTerminalChunks } from "./terminal-message";
+import type { ChatMessage } from "./simple-chat";
+
+// Everything searchable in a message: what was said, tool output and terminal output
+function getMessageText(message: ChatMessage): string {
+  return [
+    message.content,
+    ...(message.parts ?? []).map((part) => (part.type === "text" ? part.text : JSON.stringify(part.data))),
+    message.terminalResult?.command,
+    ...(message.terminalResult ? getTerminalChunks(message.terminalResult).map((chunk) => chunk.data) : []),
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+// A piece of text around the first match
+function getSnippet(text: string, query: string): string | null {
+  const index = text.toLowerCase().indexOf(query);
+  if (index === -1) return null;
+  const start = Math.max(0, index - 60);
+  const end = Math.min(text.length, index + query.length + 60);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).replace(/\s+/g, " ")}${end < text.length ? "…" : ""}`;
+}
+
+export function SessionHistory() {
+  const router = useRouter();
+  const aiTools = useAITools();
+  const apiKeyStorage = useApiKeys();
+  const sessionStorage = useSessionStorage();
+  const { getTranscript } = useTranscriptStorage<ChatMessage>();
+
+  const [sessions, setSessions] = useState<SessionInfo[] | null>(null);
+  const [query, setQuery] = useState("");
+  // Transcript text by sandbox ID, loaded on the first search
+  const [transcripts, setTranscripts] = useState<Record<string, string> | null>(null);
+  const [isLoadingTranscripts, setIsLoadingTranscripts] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Sessions of every tool, most recently used first
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadSessions = async () => {
+      const sessionsByTool = await Promise.all(aiTools.map(({ value }) => sessionStorage.getSessions(value)));
+      if (cancelled) return;
+      setSessions(
+        sessionsByTool
+          .flat()
+          .sort((a, b) => new Date(b.lastUsedAt).getTime() - new Date(a.lastUsedAt).getTime())
+      );
+    };
+
+    loadSessions().catch((error) => {
+      console.error("Failed to load sessions:", error);
+      setError(error instanceof Error ? error.message : "Failed to load sessions");
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [aiTools, sessionStorage]);
+
+  const normalizedQuery = query.trim().toLowerCase();
+
+  useEffect(() => {
+    if (!normalizedQuery || !sessions || transcripts || isLoadingTranscripts) return;
+
+    const loadTranscripts = async () => {
+      setIsLoadingTranscripts(true);
+      try {
+        const sandboxIds = [...new Set(sessions.flatMap((session) => session.sandboxIds ?? [session.sandboxId]))];
+        const texts = await Promise.all(
+          sandboxIds.map(async (sandboxId) => (await getTranscript(sandboxId)).map(getMessageText).join("\n"))
+        );
+        setTranscripts(Object.fromEntries(sandboxIds.map((sandboxId, index) => [sandboxId, texts[index]])));
+      } catch (error) {
+        console.error("Failed to load transcripts:", error);
+        setError(error instanceof Error ? error.message : "Failed to load transcripts");
+        // Search titles only instead of retrying
+        setTranscripts({});
+      } finally {
+        setIsLoadingTranscripts(false);
+      }
+    };
+
+    loadTranscripts();
+  }, [normalizedQuery, sessions, transcripts, isLoadingTranscripts, getTranscript]);
+
+  const results = useMemo(() => {
+    if (!sessions) return [];
+    if (!normalizedQuery) return sessions.map((session) => ({ session, snippet: null as string | null }));
+
+    return sessions.flatMap((session) => {
+      const text = [
+        session.title ?? "",
+        session.sessionId,
+        ...(session.sandboxIds ?? [session.sandboxId]).map((sandboxId) => transcripts?.[sandboxId] ?? ""),
+      ].join("\n");
+      const snippet = getSnippet(text, normalizedQuery);
+      return snippet ? [{ session, snippet }] : [];
+    });
+  }, [sessions, normalizedQuery, transcripts]);
+
+  // Resume from the create form, with the session selected and a prompt to edit before sending
+  const handleResume = async (session: SessionInfo) => {
+    setError(null);
+    try {
+      if (!isAITool(session.toolType)) {
+        throw new Error(`Unknown tool: ${session.toolType}`);
+      }
+      await apiKeyStorage.setSelectedTool(session.toolType);
+      router.push(`/?resume=${encodeURIComponent(session.sessionId)}`);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to resume session");
+    }
+  };
+
+  const toolLabel = (tool: AITool) => aiTools.find(({ value }) => value === tool)?.label ?? tool;
+
+  return (
+    <div className="flex h-screen flex-col">
+      <TopBar title="Sessions" subtitle="Past agent sessions, searchable by their transcripts">
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/conversation">
+            <Upload className="w-4 h-4 mr-1" />
+            Import
+          </Link>
+        </Button>
+        <Button variant="ghost" size="sm" asChild>
+          <Link href="/">
+            <ArrowLeft className="w-4 h-4 mr-1" />
+            New Sandbox
+          </Link>
+        </Button>
+      </TopBar>
+
+      <div className="flex-1 overflow-y-auto">
+        <div className="mx-auto max-w-4xl space-y-4 p-6">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 size-4 -translate-y-1/2 text-muted-foreground" />
+            <Input
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder="Search prompts, responses and terminal output..."
+              className="pl-9"
+            />
+          </div>
+
+          {error && (
+            <div className="rounded-lg border border-destructive/20 bg-destructive/10 p-3 text-sm text-destructive">
+              {error}
+            </div>
+          )}
+
+          {!sessions || (normalizedQuery && isLoadingTranscripts) ? (
+            <div className="flex justify-center p-8">
+              <Loader />
+            </div>
+          ) : results.length === 0 ? (
+            <p className="p-8 text-center text-sm text-muted-foreground">
+              {normalizedQuery ? "No sessions match your search" : "No sessions yet"}
+            </p>
+          ) : (
+            <ul className="divide-y rounded-lg border">
+              {results.map(({ session, snippet }) => (
+                <li key={`${session.toolType}-${session.sessionId}`} className="flex items-start gap-4 p-4">
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="truncate font-medium">{session.title || "Untitled session"}</span>
+                      <Badge variant="secondary" className="shrink-0">{toolLabel(session.toolType)}</Badge>
+                    </div>
+                    <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-muted-foreground">
+                      <span className="font-mono">{session.sessionId.slice(0, 8)}</span>
+                      <span>
+                        {session.turnCount ?? 0} {session.turnCount === 1 ? "turn" : "turns"}
+                      </span>
+                      {session.totalCostUsd !== undefined && <span>${session.totalCostUsd.toFixed(4)}</span>}
+                      <span>Last used {new Date(session.lastUsedAt).toLocaleString()}</span>
+                    </div>
+                    {snippet && normalizedQuery && (
+                      <p className="line-clamp-2 text-xs text-muted-foreground">{snippet}</p>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 items-center gap-1">
+                    <Button variant="ghost" size="icon" asChild title="Open Transcript">
+                      <Link href={`/chat/${session.sandboxId}`}>
+                        <MessageSquare className="w-4 h-4" />
+                      </Link>
+                    </Button>
+                    <Button size="sm" onClick={() => handleResume(session)}>
+                      <Play className="w-3 h-3" />
+                      Resume
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
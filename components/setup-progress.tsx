@@ -4,17 +4,9 @@ import React from 'react';
 import { Task, TaskContent, TaskItem, TaskTrigger } from './ai-elements/task';
 import { AlertCircleIcon, Loader2Icon } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { SetupTask, TaskStatus } from './setup-status';
 
-export type TaskStatus = 'pending' | 'in-progress' | 'completed' | 'failed';
-
-export interface SetupTask {
-  id: string;
-  title: string;
-  status: TaskStatus;
-  description?: string;
-  error?: string;
-  details?: string[];
-}
+export type { SetupTask, TaskStatus };
 
 interface SetupProgressProps {
   tasks: SetupTask[];
@@ -87,6 +79,11 @@ export function SetupProgress({ tasks, toolName }: SetupProgressProps) {
                   <span className={cn("text-sm", getStatusColor(task.status))}>
                     {task.title}
                   </span>
+                  {task.status !== 'in-progress' && task.durationMs !== undefined && (
+                    <span className="text-muted-foreground text-xs ml-2">
+                      {(task.durationMs / 1000).toFixed(1)}s
+                    </span>
+                  )}
                   {task.error && (
                     <span className="text-red-600 text-xs ml-2">
                       - {task.error}
@@ -4,8 +4,9 @@ import React from 'react';
 import { Task, TaskContent, TaskItem, TaskTrigger } from './ai-elements/task';
 import { AlertCircleIcon, Loader2Icon } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { SetupStepEvent, SetupStepStatus } from '@/lib/setup-steps';
 
-export type TaskStatus = 'pending' | 'in-progress' | 'completed' | 'failed';
+export type TaskStatus = SetupStepStatus;
 
 export interface SetupTask {
   id: string;
@@ -14,6 +15,22 @@ export interface SetupTask {
   description?: string;
   error?: string;
   details?: string[];
+  durationMs?: number;
+}
+
+// Fold a setup step event from the new-sandbox stream into the matching task
+export function applySetupStepEvent(tasks: SetupTask[], event: SetupStepEvent): SetupTask[] {
+  return tasks.map((task) =>
+    task.id === event.stepId
+      ? {
+          ...task,
+          status: event.status,
+          description: event.message,
+          error: event.error,
+          durationMs: event.durationMs,
+        }
+      : task
+  );
 }
 
 interface SetupStatusProps {
@@ -86,6 +103,11 @@ export function SetupStatus({ tasks, toolName }: SetupStatusProps) {
                   <span className={cn("text-sm", getStatusColor(task.status))}>
                     {task.title}
                   </span>
+                  {task.status !== 'in-progress' && task.durationMs !== undefined && (
+                    <span className="text-muted-foreground text-xs ml-2">
+                      {(task.durationMs / 1000).toFixed(1)}s
+                    </span>
+                  )}
                   {task.error && (
                     <span className="text-destructive/70 text-xs ml-2">
                       - {task.error}
@@ -1,15 +1,62 @@
 "use client";
 
 import React, { useState, useEffect, useRef } from "react";
-import { SessionInfo, AITool } from "@/lib/ai-tools-config";
+import { AITool, isAITool, extractResultFromResponse } from "@/lib/ai-tools-config";
 import { ChatHeader } from "./chat/chat-header";
 import { ChatMessages } from "./chat/chat-messages";
+import { AssistantMessagePart } from "./chat/message-parts";
 import { ChatInput } from "./chat/chat-input";
+import { Button } from "./ui/button";
+import { AlertTriangle, RotateCw } from "lucide-react";
+import { SandboxTerminal } from "./sandbox-terminal";
+import { PreviewPanel } from "./preview-panel";
+import { FileBrowser } from "./file-browser";
+import { PullRequestForm, CreatedPullRequest } from "./chat/pull-request-form";
+import {
+  CONVERSATION_EXPORT_FORMATS,
+  ConversationExportFormat,
+  buildConversationExport,
+  downloadFile,
+  getConversationFileName,
+} from "./chat/conversation-export";
+import type { LegacyTerminalResult, TerminalChunk, TerminalResult } from "./terminal-message";
 import { useChatSession } from "./chat/hooks/use-chat-session";
 import { useSetupTasks } from "./chat/hooks/use-setup-tasks";
+import { useAttachments, MessageAttachment } from "./chat/hooks/use-attachments";
 import { SetupTask } from "./setup-status";
 
 import { SandboxInfo } from "@/hooks/use-sandbox-storage";
+import { useTranscriptStorage } from "@/hooks/use-transcript-storage";
+import { useSessionStateStorage } from "@/hooks/use-session-state-storage";
+import { SetupStepEvent } from "@/lib/setup-steps";
+import type { PtySession } from "@/lib/sandbox/pty";
+import type { FileChangesData } from "@/lib/sandbox/file-changes";
+import { describeUploads } from "@/lib/uploads";
+
+const TRANSCRIPT_SAVE_DELAY_MS = 1000;
+
+// A chat entry as shown, and as saved in the sandbox's transcript
+export interface ChatMessage {
+  id: string;
+  role: "user" | "assistant";
+  content: string;
+  metadata?: {
+    sessionId?: string;
+    duration_ms?: number;
+    total_cost_usd?: number;
+    usage?: {
+      input_tokens?: number;
+      output_tokens?: number;
+    };
+    exitCode?: number;
+  };
+  parts?: AssistantMessagePart[];
+  fileChanges?: FileChangesData;
+  attachments?: MessageAttachment[];
+  type?: "chat" | "terminal" | "setup";
+  terminalResult?: TerminalResult | LegacyTerminalResult;
+  setupTasks?: SetupTask[];
+}
 
 interface SimpleChatProps {
   sandbox: SandboxInfo;
@@ -20,7 +67,7 @@ interface SimpleChatProps {
   onStopSandbox: () => void;
   isStoppingSandbox: boolean;
   isExpired?: boolean;
-  streamingMessages?: string;
+  setupEvents?: SetupStepEvent[];
   initialPrompt?: string;
 }
 
@@ -33,49 +80,102 @@ export function SimpleChat({
   onStopSandbox,
   isStoppingSandbox,
   isExpired = false,
-  streamingMessages,
+  setupEvents,
   initialPrompt,
 }: SimpleChatProps) {
   // Use custom hooks
-  const { currentSessionId, setCurrentSessionId, saveSession } = useChatSession(sandbox.tool as AITool);
-  const { setupTasks } = useSetupTasks(sandbox, streamingMessages);
+  const { currentSessionId, setCurrentSessionId, recordTurn } = useChatSession(sandbox.tool as AITool);
+  const { setupTasks } = useSetupTasks(sandbox, setupEvents);
 
   // State declarations
-  const [messages, setMessages] = useState<
-    Array<{
-      id: string;
-      role: "user" | "assistant";
-      content: string;
-      metadata?: {
-        sessionId?: string;
-        duration_ms?: number;
-        total_cost_usd?: number;
-        usage?: {
-          input_tokens?: number;
-          output_tokens?: number;
-        };
-        exitCode?: number;
-      };
-      type?: "chat" | "terminal" | "setup";
-      terminalResult?: {
-        command: string;
-        exitCode: number;
-        stdout: string;
-        stderr: string;
-      };
-      setupTasks?: SetupTask[];
-    }>
-  >([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const { getTranscript, saveTranscript } = useTranscriptStorage<ChatMessage>();
+  const [isTranscriptRestored, setIsTranscriptRestored] = useState(false);
+  // Set when the saved transcript couldn't be read; bumping the attempt reads it again
+  const [transcriptRestoreError, setTranscriptRestoreError] = useState<string | null>(null);
+  const [transcriptRestoreAttempt, setTranscriptRestoreAttempt] = useState(0);
+  const { captureSessionState } = useSessionStateStorage();
 
   const [isTerminalMode, setIsTerminalMode] = useState(false);
   const [input, setInput] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { attachments, addAttachments, removeAttachment, uploadAttachments } = useAttachments();
+  const [isPreviewOpen, setIsPreviewOpen] = useState(false);
+  const [isFilesOpen, setIsFilesOpen] = useState(false);
+  // Bumped after every turn or command, which may have changed the sandbox's files
+  const [filesRefreshKey, setFilesRefreshKey] = useState(0);
+  const [isPullRequestOpen, setIsPullRequestOpen] = useState(false);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [downloadPromptDismissed, setDownloadPromptDismissed] = useState(false);
+  const [ptySession, setPtySession] = useState<PtySession | null>(null);
+  // Set when the sandbox can't run an interactive shell, falling back to one-off commands
+  const [ptyUnavailable, setPtyUnavailable] = useState(false);
   
   // Track if initial messages have been added
   const initialMessagesAdded = useRef(false);
   const setupMessageAdded = useRef(false);
 
+  // The in-flight agent turn, so it can be cancelled
+  const chatAbortController = useRef<AbortController | null>(null);
+  const agentCommandId = useRef<string | null>(null);
+
+  // Restore the saved transcript; until then nothing is saved, so it can't be overwritten
+  useEffect(() => {
+    if (!sandbox.id) return;
+    let cancelled = false;
+
+    getTranscript(sandbox.id)
+      .then((savedMessages) => {
+        if (cancelled) return;
+        if (savedMessages.length > 0) {
+          // Keep messages sent while the transcript couldn't be read after the saved ones;
+          // the setup and initial prompt messages are already part of it
+          setMessages((current) => {
+            const savedIds = new Set(savedMessages.map((message) => message.id));
+            const added = current.filter(
+              (message) => message.type !== "setup" && !message.id.startsWith("initial_") && !savedIds.has(message.id)
+            );
+            return [...savedMessages, ...added];
+          });
+          // The saved transcript already starts with these
+          initialMessagesAdded.current = true;
+          setupMessageAdded.current = true;
+        }
+        setTranscriptRestoreError(null);
+        setIsTranscriptRestored(true);
+      })
+      .catch((error) => {
+        console.error("Failed to restore transcript:", error);
+        if (cancelled) return;
+        setTranscriptRestoreError(error instanceof Error ? error.message : "Failed to load the saved messages");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [sandbox.id, getTranscript, transcriptRestoreAttempt]);
+
+  // Save the transcript as it changes, batching the updates of a streaming response
+  useEffect(() => {
+    if (!sandbox.id || !isTranscriptRestored || messages.length === 0) return;
+    const sandboxId = sandbox.id;
+
+    const timeout = setTimeout(() => {
+      // Image previews are only kept for this page, the files themselves are in the sandbox
+      const transcript = messages.map((message) =>
+        message.attachments
+          ? { ...message, attachments: message.attachments.map((attachment) => ({ ...attachment, base64: undefined })) }
+          : message
+      );
+      saveTranscript(sandboxId, transcript).catch((error) => {
+        console.error("Failed to save transcript:", error);
+      });
+    }, TRANSCRIPT_SAVE_DELAY_MS);
+
+    return () => clearTimeout(timeout);
+  }, [sandbox.id, isTranscriptRestored, messages, saveTranscript]);
+
   // Initialize session ID from sandbox
   useEffect(() => {
     if (sandbox.session?.id && !currentSessionId) {
@@ -87,6 +187,9 @@ export function SimpleChat({
   useEffect(() => {
     if (sandbox.cursorCLI?.cursorCLI.promptOutput && initialPrompt && !initialMessagesAdded.current) {
       const promptOutput = sandbox.cursorCLI.cursorCLI.promptOutput;
+      const promptResult = isAITool(sandbox.tool) && promptOutput.parsedJson
+        ? extractResultFromResponse(sandbox.tool, promptOutput.parsedJson)
+        : null;
       const allTasksCompleted = setupTasks.length > 0 && setupTasks.every(task => task.status === 'completed');
       
       const messagesToAdd = [];
@@ -114,7 +217,7 @@ export function SimpleChat({
         {
           id: `initial_assistant_${Date.now()}`,
           role: "assistant" as const,
-          content: promptOutput.parsedJson?.result ? String(promptOutput.parsedJson.result) : promptOutput.stdout,
+          content: promptResult || promptOutput.stdout,
           type: "chat" as const,
           metadata: {
             sessionId: promptOutput.sessionId,
@@ -132,7 +235,7 @@ export function SimpleChat({
       setMessages(messagesToAdd);
       initialMessagesAdded.current = true;
     }
-  }, [sandbox.cursorCLI?.cursorCLI.promptOutput, initialPrompt, setupTasks]);
+  }, [sandbox.cursorCLI?.cursorCLI.promptOutput, sandbox.tool, initialPrompt, setupTasks]);
 
   // Add setup message for completed sandboxes (including existing ones)
   useEffect(() => {
@@ -143,7 +246,7 @@ export function SimpleChat({
       const completedTasks = [
         {
           id: "create-sandbox",
-          title: "Create Vercel Sandbox",
+          title: "Create Sandbox",
           status: "completed" as const,
           description: "Sandbox created successfully",
         },
@@ -205,8 +308,7 @@ export function SimpleChat({
         terminalResult: {
           command: currentInput,
           exitCode: -1, // Special code to indicate loading
-          stdout: "",
-          stderr: "",
+          output: [],
         },
       };
 
@@ -228,18 +330,36 @@ export function SimpleChat({
           throw new Error(errorData.error || "Terminal command failed");
         }
 
-        // Parse SSE streaming response
+        // Parse SSE streaming response, showing output as the command produces it
         const reader = response.body?.getReader();
         const decoder = new TextDecoder();
-        let terminalResult = null;
+        let buffer = "";
+        // The exit code; the output is gathered from the chunks
+        let terminalResult: Pick<TerminalResult, "command" | "exitCode"> | null = null;
+        let cmdId: string | undefined;
+        const output: TerminalChunk[] = [];
+
+        const updateLoadingMessage = () => {
+          setMessages((prev) =>
+            prev.map((msg) =>
+              msg.id === loadingMessageId && msg.terminalResult
+                ? {
+                    ...msg,
+                    terminalResult: { ...msg.terminalResult, cmdId, output: [...output] },
+                  }
+                : msg
+            )
+          );
+        };
 
         if (reader) {
           while (true) {
             const { done, value } = await reader.read();
             if (done) break;
 
-            const chunk = decoder.decode(value);
-            const lines = chunk.split("\n");
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split("\n");
+            buffer = lines.pop() ?? "";
 
             for (const line of lines) {
               if (line.startsWith("data: ")) {
@@ -248,13 +368,15 @@ export function SimpleChat({
 
                 try {
                   const parsed = JSON.parse(data);
-
-                  // Look for the terminal result data
-                  if (
-                    parsed.type === "data" &&
-                    parsed.id === "terminal-result" &&
-                    parsed.data?.result
-                  ) {
+                  if (parsed.type !== "data") continue;
+
+                  if (parsed.id === "terminal-command" && parsed.data?.cmdId) {
+                    cmdId = parsed.data.cmdId;
+                    updateLoadingMessage();
+                  } else if (parsed.id === "terminal-chunk" && parsed.data) {
+                    output.push(parsed.data);
+                    updateLoadingMessage();
+                  } else if (parsed.id === "terminal-result" && parsed.data?.result) {
                     terminalResult = parsed.data.result;
                   }
                 } catch (e) {
@@ -278,7 +400,8 @@ export function SimpleChat({
                   ...msg,
                   terminalResult: {
                     command: currentInput,
-                    ...terminalResult,
+                    exitCode: terminalResult.exitCode,
+                    output,
                   },
                 }
               : msg
@@ -295,11 +418,15 @@ export function SimpleChat({
                   terminalResult: {
                     command: currentInput,
                     exitCode: 1,
-                    stdout: "",
-                    stderr:
-                      error instanceof Error
-                        ? error.message
-                        : "Failed to execute command",
+                    output: [
+                      {
+                        stream: "stderr",
+                        data:
+                          error instanceof Error
+                            ? error.message
+                            : "Failed to execute command",
+                      },
+                    ],
                   },
                 }
               : msg
@@ -311,12 +438,26 @@ export function SimpleChat({
         setInput(currentInput);
       }
     } else {
-      // Chat mode - existing logic
+      // Chat mode - write any attachments into the sandbox first, so the prompt can point at them
+      let uploadedFiles: MessageAttachment[] = [];
+      if (attachments.length > 0 && sandbox.id) {
+        try {
+          uploadedFiles = await uploadAttachments(sandbox.id);
+        } catch (error) {
+          console.error("Upload error:", error);
+          setError(error instanceof Error ? error.message : "Failed to upload files");
+          setInput(currentInput);
+          setIsLoading(false);
+          return;
+        }
+      }
+
       const userMessage = {
         id: `user_${Date.now()}`,
         role: "user" as const,
         content: currentInput,
         type: "chat" as const,
+        attachments: uploadedFiles.length > 0 ? uploadedFiles : undefined,
       };
 
       setMessages((prev) => [...prev, userMessage]);
@@ -328,9 +469,13 @@ export function SimpleChat({
         return;
       }
 
+      const abortController = new AbortController();
+      chatAbortController.current = abortController;
+
       try {
         const response = await fetch(`/api/sandbox/${sandbox.id}/chat`, {
           method: "POST",
+          signal: abortController.signal,
           headers: {
             "Content-Type": "application/json",
           },
@@ -338,7 +483,13 @@ export function SimpleChat({
             tool: sandbox.tool || "unknown",
             apiKey: apiKey,
             sessionId: currentSessionId,
-            messages: [userMessage],
+            messages: [
+              {
+                id: userMessage.id,
+                role: userMessage.role,
+                content: currentInput + describeUploads(uploadedFiles),
+              },
+            ],
           }),
         });
 
@@ -350,16 +501,42 @@ export function SimpleChat({
         // Parse streaming response
         const reader = response.body?.getReader();
         const decoder = new TextDecoder();
+        const assistantId = `assistant_${Date.now()}`;
         let assistantContent = "";
-        let assistantMetadata = null;
+        let assistantMetadata: (typeof messages)[number]["metadata"];
+        let assistantParts: AssistantMessagePart[] = [];
+        let assistantFileChanges: FileChangesData | undefined;
+        let streamError: string | null = null;
+        // The session of the turn's final metadata, sent once the agent has finished
+        let finishedSessionId: string | null = null;
+        let buffer = "";
+
+        // Show the reply as it streams in, adding the message on the first update
+        const updateAssistantMessage = () => {
+          const assistantMessage = {
+            id: assistantId,
+            role: "assistant" as const,
+            content: assistantContent || "No response received",
+            metadata: assistantMetadata,
+            parts: assistantParts,
+            fileChanges: assistantFileChanges,
+          };
+          setMessages((prev) =>
+            prev.some((msg) => msg.id === assistantId)
+              ? prev.map((msg) => (msg.id === assistantId ? assistantMessage : msg))
+              : [...prev, assistantMessage]
+          );
+        };
 
         if (reader) {
           while (true) {
             const { done, value } = await reader.read();
             if (done) break;
 
-            const chunk = decoder.decode(value);
-            const lines = chunk.split("\n");
+            // Events can be split across chunks, so keep the trailing partial line
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split("\n");
+            buffer = lines.pop() ?? "";
 
             for (const line of lines) {
               if (line.startsWith("data: ")) {
@@ -371,28 +548,47 @@ export function SimpleChat({
 
                   if (parsed.type === "text-delta") {
                     assistantContent += parsed.delta;
+                    const lastPart = assistantParts[assistantParts.length - 1];
+                    assistantParts =
+                      lastPart?.type === "text"
+                        ? [...assistantParts.slice(0, -1), { type: "text", text: lastPart.text + parsed.delta }]
+                        : [...assistantParts, { type: "text", text: parsed.delta }];
+                    updateAssistantMessage();
+                  } else if (
+                    parsed.type === "data-tool-call" ||
+                    parsed.type === "data-reasoning"
+                  ) {
+                    // Later parts with the same id update a step in place
+                    const part = {
+                      type: parsed.type === "data-tool-call" ? "tool-call" : "reasoning",
+                      id: parsed.id,
+                      data: parsed.data,
+                    } as AssistantMessagePart;
+                    assistantParts = assistantParts.some((p) => "id" in p && p.id === parsed.id)
+                      ? assistantParts.map((p) => ("id" in p && p.id === parsed.id ? part : p))
+                      : [...assistantParts, part];
+                    updateAssistantMessage();
+                  } else if (parsed.type === "data-file-changes") {
+                    assistantFileChanges = parsed.data;
+                    updateAssistantMessage();
+                  } else if (parsed.type === "data-agent-command") {
+                    agentCommandId.current = parsed.data.cmdId;
+                  } else if (parsed.type === "error") {
+                    streamError = parsed.errorText;
                   } else if (
                     parsed.type === "data-session-metadata" ||
                     parsed.type === "data-error-metadata"
                   ) {
                     assistantMetadata = parsed.data;
+                    updateAssistantMessage();
 
                     // Update session ID if provided
                     if (parsed.data.sessionId) {
                       setCurrentSessionId(parsed.data.sessionId);
-
-                      // Save updated session info to localStorage
-                      const sessionInfo: SessionInfo = {
-                        sessionId: parsed.data.sessionId,
-                        toolType: (sandbox.tool || "unknown") as AITool,
-                        sandboxId: sandbox.id!,
-                        createdAt:
-                          sandbox.session?.id === parsed.data.sessionId
-                            ? new Date().toISOString() // This is a new session
-                            : new Date().toISOString(), // For now, use current time - could be improved
-                        lastUsedAt: new Date().toISOString(),
-                      };
-                      saveSession(sessionInfo);
+                    }
+                    // Streaming tools also send the session ID early, without an exit code
+                    if (parsed.type === "data-error-metadata" || parsed.data.exitCode !== undefined) {
+                      finishedSessionId = parsed.data.sessionId ?? null;
                     }
                   }
                 } catch (e) {
@@ -403,26 +599,130 @@ export function SimpleChat({
           }
         }
 
-        const assistantMessage = {
-          id: `assistant_${Date.now()}`,
-          role: "assistant" as const,
-          content: assistantContent || "No response received",
-          metadata: assistantMetadata,
-        };
-
-        setMessages((prev) => [...prev, assistantMessage]);
+        if (streamError) {
+          throw new Error(streamError);
+        }
+        if (finishedSessionId) {
+          // Save the turn to the session history
+          await recordTurn(finishedSessionId, sandbox.id, {
+            prompt: currentInput,
+            costUsd: assistantMetadata?.total_cost_usd,
+          });
+          // Keep the session resumable even if the sandbox expires while the page is closed
+          if (isAITool(sandbox.tool)) {
+            captureSessionState({ id: sandbox.id, tool: sandbox.tool, sessionId: finishedSessionId }).catch((error) => {
+              console.error("Failed to save session state:", error);
+            });
+          }
+        }
+        if (assistantParts.length === 0 && !assistantMetadata) {
+          updateAssistantMessage();
+        }
       } catch (error) {
-        console.error("Chat error:", error);
-        setError(
-          error instanceof Error ? error.message : "Failed to send message"
-        );
-        setInput(currentInput);
+        if (abortController.signal.aborted) {
+          // Stopped by the user; keep whatever the agent produced so far
+          console.log("Chat turn cancelled");
+        } else {
+          console.error("Chat error:", error);
+          setError(
+            error instanceof Error ? error.message : "Failed to send message"
+          );
+          setInput(currentInput);
+        }
+      } finally {
+        chatAbortController.current = null;
+        agentCommandId.current = null;
       }
     }
 
+    setFilesRefreshKey((key) => key + 1);
     setIsLoading(false);
   };
 
+  const handleStopTurn = async () => {
+    const cmdId = agentCommandId.current;
+    if (cmdId && sandbox.id) {
+      try {
+        const response = await fetch(`/api/sandbox/${sandbox.id}/chat/cancel`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ cmdId }),
+        });
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          console.error("Failed to cancel agent turn:", errorData.error);
+        }
+      } catch (error) {
+        console.error("Failed to cancel agent turn:", error);
+      }
+    }
+    chatAbortController.current?.abort();
+  };
+
+  const handleKillCommand = async (cmdId: string) => {
+    if (!sandbox.id) return;
+    try {
+      const response = await fetch(`/api/sandbox/${sandbox.id}/terminal?cmdId=${encodeURIComponent(cmdId)}`, {
+        method: "DELETE",
+      });
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        console.error("Failed to kill command:", errorData.error);
+      }
+    } catch (error) {
+      console.error("Failed to kill command:", error);
+    }
+  };
+
+  // Report the new pull request in the chat
+  const handlePullRequestCreated = (pullRequest: CreatedPullRequest) => {
+    setIsPullRequestOpen(false);
+    setMessages((prev) => [
+      ...prev,
+      {
+        id: `pr_${Date.now()}`,
+        role: "assistant",
+        content: `Opened ${pullRequest.host} pull request [#${pullRequest.number}](${pullRequest.url}) from \`${pullRequest.branch}\` (commit \`${pullRequest.commit.slice(0, 7)}\`).`,
+      },
+    ]);
+  };
+
+  // Save the working directory as an archive through the browser's downloads
+  const handleDownloadWorkspace = async () => {
+    if (!sandbox.id) return;
+    setIsDownloading(true);
+    try {
+      const response = await fetch(`/api/sandbox/${sandbox.id}/archive`);
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to download workspace");
+      }
+      const fileName =
+        response.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ??
+        "workspace.tar.gz";
+      downloadFile(await response.blob(), fileName);
+      setDownloadPromptDismissed(true);
+    } catch (error) {
+      console.error("Download error:", error);
+      setError(error instanceof Error ? error.message : "Failed to download workspace");
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleExportConversation = (format: ConversationExportFormat) => {
+    const conversation = buildConversationExport({ sandbox, sessionId: currentSessionId, messages, setupTasks });
+    const { serialize, contentType } = CONVERSATION_EXPORT_FORMATS[format];
+    downloadFile(
+      new Blob([serialize(conversation)], { type: contentType }),
+      getConversationFileName(conversation, format)
+    );
+  };
+
+  const isInteractiveTerminal = isTerminalMode && !!sandbox.id && !isExpired && !ptyUnavailable;
+
   const handleNewChat = () => {
     setMessages([]);
     setCurrentSessionId(null);
@@ -439,26 +739,116 @@ export function SimpleChat({
         onNewChat={handleNewChat}
         onStopSandbox={onStopSandbox}
         onNewSandbox={onNewSandbox}
+        isPreviewOpen={isPreviewOpen}
+        onTogglePreview={sandbox.id ? () => setIsPreviewOpen((open) => !open) : undefined}
+        isFilesOpen={isFilesOpen}
+        onToggleFiles={sandbox.id ? () => setIsFilesOpen((open) => !open) : undefined}
+        isPullRequestOpen={isPullRequestOpen}
+        onTogglePullRequest={
+          sandbox.id && sandbox.repository?.branch ? () => setIsPullRequestOpen((open) => !open) : undefined
+        }
+        isDownloading={isDownloading}
+        onDownload={sandbox.id ? handleDownloadWorkspace : undefined}
+        showDownloadPrompt={
+          remainingTimeMs !== null && remainingTimeMs < 60000 && !downloadPromptDismissed
+        }
+        onDismissDownloadPrompt={() => setDownloadPromptDismissed(true)}
+        onExportConversation={messages.length > 0 ? handleExportConversation : undefined}
       />
 
-      <ChatMessages
-        messages={messages}
-        setupTasks={setupTasks}
-        toolName={sandbox.toolName}
-        isTerminalMode={isTerminalMode}
-        error={error}
-      />
-
-      <ChatInput
-        isTerminalMode={isTerminalMode}
-        setIsTerminalMode={setIsTerminalMode}
-        input={input}
-        setInput={setInput}
-        onSubmit={handleSubmit}
-        isLoading={isLoading}
-        isExpired={isExpired}
-        toolName={sandbox.toolName}
-      />
+      {isPullRequestOpen && sandbox.id && sandbox.repository && (
+        <PullRequestForm
+          sandboxId={sandbox.id}
+          repository={sandbox.repository}
+          defaultTitle={messages.find((message) => message.role === "user" && message.type !== "terminal")?.content ?? initialPrompt}
+          onCreated={handlePullRequestCreated}
+          onClose={() => setIsPullRequestOpen(false)}
+        />
+      )}
+
+      <div className="flex flex-1 overflow-hidden">
+        {isFilesOpen && sandbox.id && (
+          <FileBrowser
+            sandboxId={sandbox.id}
+            refreshKey={filesRefreshKey}
+            disabled={isExpired}
+            onClose={() => setIsFilesOpen(false)}
+            className="m-2 w-72 shrink-0"
+          />
+        )}
+
+        <div className="flex min-w-0 flex-1 flex-col overflow-hidden">
+          {transcriptRestoreError && (
+            <div className="border-b bg-destructive/10 border-destructive/20 px-4 py-3">
+              <div className="flex items-center gap-2 text-destructive">
+                <AlertTriangle className="w-4 h-4" />
+                <span className="text-sm font-medium">
+                  Couldn&apos;t load this chat&apos;s saved messages ({transcriptRestoreError}). New messages aren&apos;t
+                  saved until they load, so they don&apos;t replace them.
+                </span>
+                <div className="flex-1" />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setTranscriptRestoreAttempt((attempt) => attempt + 1)}
+                  className="h-7"
+                >
+                  <RotateCw className="w-3 h-3 mr-1" />
+                  Retry
+                </Button>
+              </div>
+            </div>
+          )}
+          {isInteractiveTerminal && sandbox.id ? (
+            <div className="flex-1 overflow-hidden p-4">
+              <SandboxTerminal
+                sandboxId={sandbox.id}
+                session={ptySession}
+                onSessionChange={setPtySession}
+                onUnavailable={(message) => {
+                  console.warn("Interactive terminal unavailable:", message);
+                  setPtyUnavailable(true);
+                  setError(`Interactive terminal unavailable (${message}); running commands one at a time instead`);
+                }}
+              />
+            </div>
+          ) : (
+            <ChatMessages
+              messages={messages}
+              setupTasks={setupTasks}
+              toolName={sandbox.toolName}
+              isTerminalMode={isTerminalMode}
+              error={error}
+              onKillCommand={handleKillCommand}
+            />
+          )}
+
+          <ChatInput
+            isTerminalMode={isTerminalMode}
+            isInteractiveTerminal={isInteractiveTerminal}
+            setIsTerminalMode={setIsTerminalMode}
+            input={input}
+            setInput={setInput}
+            onSubmit={handleSubmit}
+            isLoading={isLoading}
+            onStop={handleStopTurn}
+            isExpired={isExpired}
+            toolName={sandbox.toolName}
+            attachments={attachments}
+            onAddAttachments={(added) => setError(addAttachments(added))}
+            onRemoveAttachment={removeAttachment}
+          />
+        </div>
+
+        {isPreviewOpen && sandbox.id && (
+          <PreviewPanel
+            sandboxId={sandbox.id}
+            disabled={isExpired}
+            onClose={() => setIsPreviewOpen(false)}
+            className="m-2 w-1/2 shrink-0"
+          />
+        )}
+      </div>
     </div>
   );
 }
@@ -1,17 +1,86 @@
 import React from "react";
+import Anser from "anser";
+import { Square } from "lucide-react";
 import { Loader } from "./ai-elements/loader";
+import { Button } from "./ui/button";
+
+export interface TerminalChunk {
+  stream: "stdout" | "stderr";
+  data: string;
+}
+
+export interface TerminalResult {
+  command: string;
+  // -1 while the command runs
+  exitCode: number;
+  cmdId?: string;
+  // Everything the command printed, in the order it was produced
+  output: TerminalChunk[];
+}
+
+// Transcripts and exports saved before output was streamed kept the two streams apart
+export interface LegacyTerminalResult {
+  command: string;
+  exitCode: number;
+  cmdId?: string;
+  stdout: string;
+  stderr: string;
+}
+
+export function getTerminalChunks(result: TerminalResult | LegacyTerminalResult): TerminalChunk[] {
+  if ("output" in result) return result.output;
+  return [
+    { stream: "stdout", data: result.stdout },
+    { stream: "stderr", data: result.stderr },
+  ];
+}
 
 interface TerminalMessageProps {
   command: string;
-  result: {
-    exitCode: number;
-    stdout: string;
-    stderr: string;
-  };
+  result: TerminalResult | LegacyTerminalResult;
+  onKill?: () => void;
+}
+
+// Merge consecutive chunks from the same stream so escape sequences split across chunks still parse
+function groupChunks(chunks: TerminalChunk[]): TerminalChunk[] {
+  const groups: TerminalChunk[] = [];
+  for (const chunk of chunks) {
+    const last = groups[groups.length - 1];
+    if (last && last.stream === chunk.stream) {
+      last.data += chunk.data;
+    } else {
+      groups.push({ ...chunk });
+    }
+  }
+  return groups;
+}
+
+function AnsiText({ text, className }: { text: string; className: string }) {
+  const entries = Anser.ansiToJson(text, { json: true, remove_empty: true });
+  return (
+    <pre className={`${className} whitespace-pre-wrap break-words`}>
+      {entries.map((entry, index) => (
+        <span
+          key={index}
+          style={{
+            color: entry.fg ? `rgb(${entry.fg})` : undefined,
+            backgroundColor: entry.bg ? `rgb(${entry.bg})` : undefined,
+            fontWeight: entry.decorations.includes("bold") ? "bold" : undefined,
+            fontStyle: entry.decorations.includes("italic") ? "italic" : undefined,
+            textDecoration: entry.decorations.includes("underline") ? "underline" : undefined,
+            opacity: entry.decorations.includes("dim") ? 0.7 : undefined,
+          }}
+        >
+          {entry.content}
+        </span>
+      ))}
+    </pre>
+  );
 }
 
-export function TerminalMessage({ command, result }: TerminalMessageProps) {
+export function TerminalMessage({ command, result, onKill }: TerminalMessageProps) {
   const isLoading = result.exitCode === -1;
+  const chunks = groupChunks(getTerminalChunks(result)).filter((chunk) => chunk.data);
 
   return (
     <div className="mb-4 font-mono text-sm">
@@ -21,38 +90,42 @@ export function TerminalMessage({ command, result }: TerminalMessageProps) {
         <span className="text-foreground">{command}</span>
       </div>
       
-      {/* Command output or loading indicator */}
       <div className="ml-4">
+        {/* Output so far, colored as the command printed it */}
+        {chunks.map((chunk, index) => (
+          <AnsiText
+            key={index}
+            text={chunk.data}
+            className={chunk.stream === "stderr" ? "text-red-600" : "text-foreground"}
+          />
+        ))}
+
         {isLoading ? (
           <div className="flex items-center gap-2 text-blue-600">
             <Loader size={12} />
             <span className="text-sm">Running command...</span>
+            {onKill && (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-6 gap-1 px-2 text-xs text-muted-foreground hover:text-destructive"
+                onClick={onKill}
+              >
+                <Square className="size-3" />
+                Kill
+              </Button>
+            )}
           </div>
         ) : (
-          <>
-            {/* Standard output */}
-            {result.stdout && (
-              <pre className="text-foreground whitespace-pre-wrap break-words">
-                {result.stdout}
-              </pre>
-            )}
-            
-            {/* Standard error */}
-            {result.stderr && (
-              <pre className="text-red-600 whitespace-pre-wrap break-words">
-                {result.stderr}
-              </pre>
-            )}
-            
-            {/* Exit code indicator (only show if non-zero or no output) */}
-            {(result.exitCode !== 0 || (!result.stdout && !result.stderr)) && (
-              <div className={`text-xs mt-1 ${result.exitCode === 0 ? 'text-green-600' : 'text-red-600'}`}>
-                Exit code: {result.exitCode}
-              </div>
-            )}
-          </>
+          /* Exit code indicator (only show if non-zero or no output) */
+          (result.exitCode !== 0 || chunks.length === 0) && (
+            <div className={`text-xs mt-1 ${result.exitCode === 0 ? 'text-green-600' : 'text-red-600'}`}>
+              Exit code: {result.exitCode}
+            </div>
+          )
         )}
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
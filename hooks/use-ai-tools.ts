@@ -0,0 +1,35 @@
+import React from 'react';
+import { AITool, getAllAITools, setCustomAITools } from '@/lib/ai-tools-config';
+import { parseCustomAgentManifest, toAIToolConfig } from '@/lib/custom-agents';
+
+// Built-in tools plus any custom agents from the server's manifest
+export function useAITools() {
+  const [tools, setTools] = React.useState<{ value: AITool; label: string }[]>(() => getAllAITools());
+
+  React.useEffect(() => {
+    let cancelled = false;
+
+    const loadCustomAgents = async () => {
+      try {
+        const response = await fetch('/api/tools');
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Failed to load custom agents');
+        }
+
+        const { agents } = parseCustomAgentManifest({ agents: data.agents });
+        setCustomAITools(agents.map(toAIToolConfig));
+        if (!cancelled) setTools(getAllAITools());
+      } catch (error) {
+        console.error('Failed to load custom agents:', error);
+      }
+    };
+
+    loadCustomAgents();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return tools;
+}
@@ -1,40 +1,42 @@
 import React from 'react';
-import { AITool } from '@/lib/ai-tools-config';
-import { useStorage } from './use-storage';
+import { AITool, getAllAITools } from '@/lib/ai-tools-config';
+import { useStorage, browserStorage } from './use-storage';
 
 export function useApiKeys() {
-  const storage = useStorage();
+  const storage = useStorage(browserStorage);
 
   const getApiKeyStorageKey = React.useCallback((tool: AITool): string => {
     return `claude-code-cloud-${tool}-api-key`;
   }, []);
 
-  const getApiKey = React.useCallback((tool: AITool): string | null => {
+  const getApiKey = React.useCallback(async (tool: AITool): Promise<string | null> => {
     return storage.getItem(getApiKeyStorageKey(tool));
   }, [storage, getApiKeyStorageKey]);
 
-  const setApiKey = React.useCallback((tool: AITool, key: string): void => {
-    storage.setItem(getApiKeyStorageKey(tool), key);
+  const setApiKey = React.useCallback(async (tool: AITool, key: string): Promise<void> => {
+    await storage.setItem(getApiKeyStorageKey(tool), key);
   }, [storage, getApiKeyStorageKey]);
 
-  const clearApiKey = React.useCallback((tool: AITool): void => {
-    storage.removeItem(getApiKeyStorageKey(tool));
+  const clearApiKey = React.useCallback(async (tool: AITool): Promise<void> => {
+    await storage.removeItem(getApiKeyStorageKey(tool));
   }, [storage, getApiKeyStorageKey]);
 
-  const getAnyApiKey = React.useCallback((): string | null => {
+  const getAnyApiKey = React.useCallback(async (): Promise<string | null> => {
     // Try to get any available API key
-    const claudeKey = getApiKey('claude-code');
-    const cursorKey = getApiKey('cursor-cli');
-    return claudeKey || cursorKey;
+    for (const { value } of getAllAITools()) {
+      const key = await getApiKey(value);
+      if (key) return key;
+    }
+    return null;
   }, [getApiKey]);
 
-  const getSelectedTool = React.useCallback((): AITool | null => {
-    const tool = storage.getItem('claude-code-cloud-tool');
+  const getSelectedTool = React.useCallback(async (): Promise<AITool | null> => {
+    const tool = await storage.getItem('claude-code-cloud-tool');
     return tool as AITool | null;
   }, [storage]);
 
-  const setSelectedTool = React.useCallback((tool: AITool): void => {
-    storage.setItem('claude-code-cloud-tool', tool);
+  const setSelectedTool = React.useCallback(async (tool: AITool): Promise<void> => {
+    await storage.setItem('claude-code-cloud-tool', tool);
   }, [storage]);
 
   return React.useMemo(() => ({
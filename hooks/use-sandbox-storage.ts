@@ -1,12 +1,19 @@
 import React from 'react';
 import { AITool } from '@/lib/ai-tools-config';
-import { useStorage } from './use-storage';
+import { RepositoryInfo, RepositoryOptions } from '@/lib/repository';
+import { useStorage, browserStorage } from './use-storage';
 
 export interface SandboxInfo {
   id: string | null;
   createdAt: string;
   timeoutMs?: number;
+  // Set when stopped from the chat, which then only shows the saved transcript
+  stoppedAt?: string;
   provider?: string;
+  // Ports exposed for web previews
+  ports?: number[];
+  // Cloned into the working directory at creation
+  repository?: RepositoryInfo;
   tool?: AITool;
   toolName?: string;
   initialPrompt?: string;
@@ -40,18 +47,22 @@ export interface CreationState {
   resumeSession: boolean;
   sessionId: string | null;
   aliveTimeMinutes: number;
+  ports?: number[];
+  repository?: RepositoryOptions;
   createdAt: string;
 }
 
 export function useSandboxStorage() {
   const storage = useStorage();
+  // Holds the API key and repository token, and only matters to the tab creating the sandbox
+  const creationStorage = useStorage(browserStorage);
 
   const getSandboxStorageKey = React.useCallback((sandboxId: string): string => {
     return `sandbox-${sandboxId}`;
   }, []);
 
-  const getSandbox = React.useCallback((sandboxId: string): SandboxInfo | null => {
-    const data = storage.getItem(getSandboxStorageKey(sandboxId));
+  const getSandbox = React.useCallback(async (sandboxId: string): Promise<SandboxInfo | null> => {
+    const data = await storage.getItem(getSandboxStorageKey(sandboxId));
     if (!data) return null;
     try {
       return JSON.parse(data) as SandboxInfo;
@@ -60,32 +71,32 @@ export function useSandboxStorage() {
     }
   }, [storage, getSandboxStorageKey]);
 
-  const setSandbox = React.useCallback((sandbox: SandboxInfo): void => {
+  const setSandbox = React.useCallback(async (sandbox: SandboxInfo): Promise<void> => {
     if (!sandbox.id) return;
-    storage.setItem(getSandboxStorageKey(sandbox.id), JSON.stringify(sandbox));
+    await storage.setItem(getSandboxStorageKey(sandbox.id), JSON.stringify(sandbox));
   }, [storage, getSandboxStorageKey]);
 
-  const removeSandbox = React.useCallback((sandboxId: string): void => {
-    storage.removeItem(getSandboxStorageKey(sandboxId));
+  const removeSandbox = React.useCallback(async (sandboxId: string): Promise<void> => {
+    await storage.removeItem(getSandboxStorageKey(sandboxId));
   }, [storage, getSandboxStorageKey]);
 
-  const getCreationState = React.useCallback((): CreationState | null => {
-    const data = storage.getItem('sandbox-creation-state');
+  const getCreationState = React.useCallback(async (): Promise<CreationState | null> => {
+    const data = await creationStorage.getItem('sandbox-creation-state');
     if (!data) return null;
     try {
       return JSON.parse(data) as CreationState;
     } catch {
       return null;
     }
-  }, [storage]);
+  }, [creationStorage]);
 
-  const setCreationState = React.useCallback((state: CreationState): void => {
-    storage.setItem('sandbox-creation-state', JSON.stringify(state));
-  }, [storage]);
+  const setCreationState = React.useCallback(async (state: CreationState): Promise<void> => {
+    await creationStorage.setItem('sandbox-creation-state', JSON.stringify(state));
+  }, [creationStorage]);
 
-  const clearCreationState = React.useCallback((): void => {
-    storage.removeItem('sandbox-creation-state');
-  }, [storage]);
+  const clearCreationState = React.useCallback(async (): Promise<void> => {
+    await creationStorage.removeItem('sandbox-creation-state');
+  }, [creationStorage]);
 
   return React.useMemo(() => ({
     getSandbox,
@@ -0,0 +1,139 @@
+import React from 'react';
+import { useStorage } from './use-storage';
+import { useSessionStorage } from './use-session-storage';
+import { AITool, SessionInfo } from '@/lib/ai-tools-config';
+import {
+  getSessionStatesKey,
+  LEGACY_SESSION_STATES_KEY,
+  MAX_SESSION_STATES,
+  SESSION_STATES_PREFIX,
+} from '@/components/chat/constants';
+import { STORAGE_MODE } from '@/lib/constants';
+
+// Only browser storage is small enough to need a cap
+const maxSessionStates = STORAGE_MODE === 'local' ? MAX_SESSION_STATES : Infinity;
+
+function isQuotaExceeded(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'QuotaExceededError';
+}
+
+// Keeps the CLI session files exported from a sandbox, restored when one of its sessions is resumed elsewhere
+export function useSessionStateStorage() {
+  const storage = useStorage();
+  const sessionStorage = useSessionStorage();
+  // Saves evict older states, so they run one at a time
+  const pendingSave = React.useRef<Promise<void>>(Promise.resolve());
+
+  const getSessionStateStorageKey = React.useCallback((sandboxId: string): string => {
+    return `session-state-${sandboxId}`;
+  }, []);
+
+  const getSessionState = React.useCallback(async (sandboxId: string): Promise<string | null> => {
+    return storage.getItem(getSessionStateStorageKey(sandboxId));
+  }, [storage, getSessionStateStorageKey]);
+
+  // The newest state among the sandboxes a session ran in, tried latest first
+  const findSessionState = React.useCallback(async (
+    session: Pick<SessionInfo, 'sandboxId' | 'sandboxIds'>
+  ): Promise<string | null> => {
+    const sandboxIds = [...new Set([session.sandboxId, ...[...(session.sandboxIds ?? [])].reverse()])];
+    for (const sandboxId of sandboxIds) {
+      const state = await getSessionState(sandboxId);
+      if (state) return state;
+    }
+    return null;
+  }, [getSessionState]);
+
+  // Move the list of kept states saved by older versions into one item per sandbox
+  const migrateLegacySavedSandboxIds = React.useCallback(async (): Promise<void> => {
+    const data = await storage.getItem(LEGACY_SESSION_STATES_KEY);
+    if (!data) return;
+    let sandboxIds: string[] = [];
+    try {
+      sandboxIds = JSON.parse(data) as string[];
+    } catch {
+      // Nothing worth keeping
+    }
+    // Their save times are unknown, so they keep their order ahead of anything saved since
+    for (const [index, sandboxId] of sandboxIds.entries()) {
+      await storage.setItem(getSessionStatesKey(sandboxId), new Date(index).toISOString());
+    }
+    await storage.removeItem(LEGACY_SESSION_STATES_KEY);
+  }, [storage]);
+
+  // Oldest first
+  const getSavedSandboxIds = React.useCallback(async (): Promise<string[]> => {
+    await migrateLegacySavedSandboxIds();
+    const items = await storage.getItems(SESSION_STATES_PREFIX);
+    return items
+      .sort((a, b) => a.value.localeCompare(b.value))
+      .map(({ key }) => key.slice(SESSION_STATES_PREFIX.length));
+  }, [storage, migrateLegacySavedSandboxIds]);
+
+  const removeSessionState = React.useCallback(async (sandboxId: string): Promise<void> => {
+    await storage.removeItem(getSessionStateStorageKey(sandboxId));
+    await storage.removeItem(getSessionStatesKey(sandboxId));
+  }, [storage, getSessionStateStorageKey]);
+
+  // A sandbox resumed from another one exports that sandbox's files too, so `replacedSandboxIds`
+  // (the session's earlier sandboxes) are dropped. With browser storage, the oldest states go first
+  // beyond the cap or when storage is full.
+  const saveSessionState = React.useCallback(async (
+    sandboxId: string,
+    state: string,
+    replacedSandboxIds: string[] = []
+  ): Promise<void> => {
+    const save = async () => {
+      const replaced = new Set(replacedSandboxIds.filter((id) => id !== sandboxId));
+      const kept = (await getSavedSandboxIds()).filter((id) => id !== sandboxId && !replaced.has(id));
+      const evicted = [...replaced];
+      while (kept.length >= maxSessionStates) {
+        evicted.push(kept.shift()!);
+      }
+      for (const id of evicted) {
+        await removeSessionState(id);
+      }
+
+      for (;;) {
+        try {
+          await storage.setItem(getSessionStateStorageKey(sandboxId), state);
+          break;
+        } catch (error) {
+          const oldest = kept.shift();
+          if (!isQuotaExceeded(error) || !oldest) throw error;
+          await removeSessionState(oldest);
+        }
+      }
+      await storage.setItem(getSessionStatesKey(sandboxId), new Date().toISOString());
+    };
+
+    const saved = pendingSave.current.then(save);
+    pendingSave.current = saved.catch(() => undefined);
+    return saved;
+  }, [storage, getSessionStateStorageKey, getSavedSandboxIds, removeSessionState]);
+
+  // Export the sandbox's session files through the API and keep them, replacing the session's older exports
+  const captureSessionState = React.useCallback(async (
+    sandbox: { id: string; tool: AITool; sessionId?: string | null }
+  ): Promise<void> => {
+    const response = await fetch(`/api/sandbox/${sandbox.id}/session-state?tool=${encodeURIComponent(sandbox.tool)}`);
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `Request failed with status ${response.status}`);
+    }
+    if (!data.state) return;
+
+    const session = sandbox.sessionId
+      ? await sessionStorage.getSession(sandbox.tool, sandbox.sessionId)
+      : null;
+    await saveSessionState(sandbox.id, data.state, session?.sandboxIds ?? []);
+  }, [sessionStorage, saveSessionState]);
+
+  return React.useMemo(() => ({
+    getSessionState,
+    findSessionState,
+    saveSessionState,
+    captureSessionState,
+    removeSessionState,
+  }), [getSessionState, findSessionState, saveSessionState, captureSessionState, removeSessionState]);
+}
@@ -1,52 +1,100 @@
 import React from 'react';
 import { AITool, SessionInfo } from '@/lib/ai-tools-config';
 import { useStorage } from './use-storage';
-import { getSessionsKey, MAX_SESSIONS } from '@/components/chat/constants';
+import { getLegacySessionsKey, getSessionKey, getSessionsKey, MAX_SESSIONS } from '@/components/chat/constants';
+import { STORAGE_MODE } from '@/lib/constants';
+
+function parseSession(data: string | null): SessionInfo | null {
+  if (!data) return null;
+  try {
+    return JSON.parse(data) as SessionInfo;
+  } catch {
+    return null;
+  }
+}
+
+function byLastUsed(a: SessionInfo, b: SessionInfo): number {
+  return new Date(b.lastUsedAt).getTime() - new Date(a.lastUsedAt).getTime();
+}
 
 export function useSessionStorage() {
   const storage = useStorage();
 
-  const getSessions = React.useCallback((tool: AITool): SessionInfo[] => {
-    const data = storage.getItem(getSessionsKey(tool));
-    if (!data) return [];
+  // Move sessions saved as one list by older versions into their own items
+  const migrateLegacySessions = React.useCallback(async (tool: AITool): Promise<void> => {
+    const data = await storage.getItem(getLegacySessionsKey(tool));
+    if (!data) return;
+    let sessions: SessionInfo[] = [];
     try {
-      return JSON.parse(data) as SessionInfo[];
+      sessions = JSON.parse(data) as SessionInfo[];
     } catch {
-      return [];
+      // Nothing worth keeping
+    }
+    for (const session of sessions) {
+      await storage.setItem(getSessionKey(tool, session.sessionId), JSON.stringify(session));
     }
+    await storage.removeItem(getLegacySessionsKey(tool));
   }, [storage]);
 
-  const saveSession = React.useCallback((session: SessionInfo): void => {
+  // Most recently used first
+  const getSessions = React.useCallback(async (tool: AITool): Promise<SessionInfo[]> => {
+    await migrateLegacySessions(tool);
+    const items = await storage.getItems(getSessionsKey(tool));
+    return items
+      .map(({ value }) => parseSession(value))
+      .filter((session): session is SessionInfo => session !== null)
+      .sort(byLastUsed);
+  }, [storage, migrateLegacySessions]);
+
+  const getSession = React.useCallback(async (tool: AITool, sessionId: string): Promise<SessionInfo | null> => {
+    return parseSession(await storage.getItem(getSessionKey(tool, sessionId)));
+  }, [storage]);
+
+  const saveSession = React.useCallback(async (session: SessionInfo): Promise<void> => {
     const tool = session.toolType;
-    const currentSessions = getSessions(tool);
-
-    // Remove existing session with same ID if it exists
-    const existingIndex = currentSessions.findIndex(
-      (s) => s.sessionId === session.sessionId
-    );
-    if (existingIndex >= 0) {
-      currentSessions[existingIndex] = session;
-    } else {
-      currentSessions.push(session);
-    }
+    // Keep the metadata gathered by earlier turns
+    const existing = await getSession(tool, session.sessionId);
+    await storage.setItem(getSessionKey(tool, session.sessionId), JSON.stringify({ ...existing, ...session }));
 
-    // Keep only the most recent sessions
-    currentSessions.sort(
-      (a, b) =>
-        new Date(b.lastUsedAt).getTime() - new Date(a.lastUsedAt).getTime()
-    );
-    const limitedSessions = currentSessions.slice(0, MAX_SESSIONS);
+    // Browser storage is small, so only there are older sessions dropped
+    if (STORAGE_MODE === 'local') {
+      const sessions = await getSessions(tool);
+      for (const stale of sessions.slice(MAX_SESSIONS)) {
+        await storage.removeItem(getSessionKey(tool, stale.sessionId));
+      }
+    }
+  }, [storage, getSession, getSessions]);
 
-    storage.setItem(getSessionsKey(tool), JSON.stringify(limitedSessions));
-  }, [storage, getSessions]);
+  // Count a finished turn towards the session's history
+  const recordSessionTurn = React.useCallback(async (
+    session: Pick<SessionInfo, 'sessionId' | 'toolType' | 'sandboxId'>,
+    turn: { prompt: string; costUsd?: number }
+  ): Promise<void> => {
+    const now = new Date().toISOString();
+    const existing = await getSession(session.toolType, session.sessionId);
+    await saveSession({
+      ...session,
+      createdAt: existing?.createdAt ?? now,
+      lastUsedAt: now,
+      title: existing?.title ?? turn.prompt,
+      totalCostUsd: (existing?.totalCostUsd ?? 0) + (turn.costUsd ?? 0),
+      turnCount: (existing?.turnCount ?? 0) + 1,
+      sandboxIds: [...new Set([...(existing?.sandboxIds ?? [existing?.sandboxId ?? session.sandboxId]), session.sandboxId])],
+    });
+  }, [getSession, saveSession]);
 
-  const clearSessions = React.useCallback((tool: AITool): void => {
-    storage.removeItem(getSessionsKey(tool));
+  const clearSessions = React.useCallback(async (tool: AITool): Promise<void> => {
+    await storage.removeItem(getLegacySessionsKey(tool));
+    for (const { key } of await storage.getItems(getSessionsKey(tool))) {
+      await storage.removeItem(key);
+    }
   }, [storage]);
 
   return React.useMemo(() => ({
     getSessions,
+    getSession,
     saveSession,
+    recordSessionTurn,
     clearSessions,
-  }), [getSessions, saveSession, clearSessions]);
-}
\ No newline at end of file
+  }), [getSessions, getSession, saveSession, recordSessionTurn, clearSessions]);
+}
@@ -1,31 +1,90 @@
 import React from 'react';
+import { STORAGE_MODE } from '@/lib/constants';
+
+export interface StoredItem {
+  key: string;
+  value: string;
+}
 
 export interface StorageAdapter {
-  getItem: (key: string) => string | null;
-  setItem: (key: string, value: string) => void;
-  removeItem: (key: string) => void;
+  getItem: (key: string) => Promise<string | null>;
+  // Every item whose key starts with `prefix`, for collections kept one item per record
+  getItems: (prefix: string) => Promise<StoredItem[]>;
+  setItem: (key: string, value: string) => Promise<void>;
+  removeItem: (key: string) => Promise<void>;
 }
 
 export class LocalStorageAdapter implements StorageAdapter {
-  getItem(key: string): string | null {
+  async getItem(key: string): Promise<string | null> {
     if (typeof window === 'undefined') return null;
     return localStorage.getItem(key);
   }
 
-  setItem(key: string, value: string): void {
+  async getItems(prefix: string): Promise<StoredItem[]> {
+    if (typeof window === 'undefined') return [];
+    const items: StoredItem[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(prefix)) continue;
+      const value = localStorage.getItem(key);
+      if (value !== null) items.push({ key, value });
+    }
+    return items;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
     if (typeof window === 'undefined') return;
     localStorage.setItem(key, value);
   }
 
-  removeItem(key: string): void {
+  async removeItem(key: string): Promise<void> {
     if (typeof window === 'undefined') return;
     localStorage.removeItem(key);
   }
 }
 
-// Default storage adapter - can be easily swapped for DB adapter
-const defaultStorage = new LocalStorageAdapter();
+// Keeps items in the server's SQLite database through /api/storage
+export class ServerStorageAdapter implements StorageAdapter {
+  private async request(path: string, init?: RequestInit): Promise<{ value?: string | null; items?: StoredItem[] }> {
+    const response = await fetch(`/api/storage${path}`, init);
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `Storage request failed with status ${response.status}`);
+    }
+    return data;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    const { value } = await this.request(`/${encodeURIComponent(key)}`);
+    return value ?? null;
+  }
+
+  async getItems(prefix: string): Promise<StoredItem[]> {
+    const { items } = await this.request(`?prefix=${encodeURIComponent(prefix)}`);
+    return items ?? [];
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    await this.request(`/${encodeURIComponent(key)}`, {
+      method: 'PUT',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ value }),
+    });
+  }
+
+  async removeItem(key: string): Promise<void> {
+    await this.request(`/${encodeURIComponent(key)}`, { method: 'DELETE' });
+  }
+}
+
+// Secrets and per-tab state never leave the browser, whatever the storage mode
+export const browserStorage = new LocalStorageAdapter();
+
+// Sandboxes, sessions and transcripts follow NEXT_PUBLIC_STORAGE_MODE
+const defaultStorage: StorageAdapter = STORAGE_MODE === 'server' ? new ServerStorageAdapter() : browserStorage;
 
 export function useStorage(adapter: StorageAdapter = defaultStorage) {
   return React.useMemo(() => adapter, [adapter]);
-}
\ No newline at end of file
+}
@@ -0,0 +1,35 @@
+import React from 'react';
+import { useStorage } from './use-storage';
+
+// Keeps a sandbox's chat messages, so the conversation survives reloads and other browsers
+export function useTranscriptStorage<T>() {
+  const storage = useStorage();
+
+  const getTranscriptStorageKey = React.useCallback((sandboxId: string): string => {
+    return `transcript-${sandboxId}`;
+  }, []);
+
+  const getTranscript = React.useCallback(async (sandboxId: string): Promise<T[]> => {
+    const data = await storage.getItem(getTranscriptStorageKey(sandboxId));
+    if (!data) return [];
+    try {
+      return JSON.parse(data) as T[];
+    } catch {
+      return [];
+    }
+  }, [storage, getTranscriptStorageKey]);
+
+  const saveTranscript = React.useCallback(async (sandboxId: string, messages: T[]): Promise<void> => {
+    await storage.setItem(getTranscriptStorageKey(sandboxId), JSON.stringify(messages));
+  }, [storage, getTranscriptStorageKey]);
+
+  const removeTranscript = React.useCallback(async (sandboxId: string): Promise<void> => {
+    await storage.removeItem(getTranscriptStorageKey(sandboxId));
+  }, [storage, getTranscriptStorageKey]);
+
+  return React.useMemo(() => ({
+    getTranscript,
+    saveTranscript,
+    removeTranscript,
+  }), [getTranscript, saveTranscript, removeTranscript]);
+}
@@ -1,11 +1,24 @@
-export type AITool = 'claude-code' | 'cursor-cli';
+export type BuiltInAITool = 'claude-code' | 'cursor-cli' | 'gemini-cli' | 'codex';
+
+// The name of a custom agent from the manifest. Names only become one through isAITool,
+// once the agent is registered.
+export type CustomAITool = string & { readonly __customAITool: true };
+
+export type AITool = BuiltInAITool | CustomAITool;
 
 export interface SessionInfo {
   sessionId: string;
   toolType: AITool;
+  // The sandbox the session last ran in
   sandboxId: string;
   createdAt: string;
   lastUsedAt: string;
+  // The session's first prompt
+  title?: string;
+  totalCostUsd?: number;
+  turnCount?: number;
+  // Every sandbox the session ran in, whose transcripts hold its messages
+  sandboxIds?: string[];
 }
 
 export interface Message {
@@ -21,14 +34,84 @@ export interface SessionConfig {
   resumeCommand: (sessionId: string) => string[];
   continueCommand: string[];
   listCommand?: string[];
+  // Home-relative directories where the CLI keeps its sessions, carried over when resuming in a new sandbox
+  stateDirs?: string[];
   extractSessionId: (response: unknown) => string | null;
 }
 
+export type ApiKeyPassing =
+  | { type: 'env' }
+  | { type: 'flag'; placeholder: string };
+
+export interface ToolInvocationSpec {
+  // Binary and leading args that run prompts, e.g. `npx` + `@anthropic-ai/claude-code`
+  command: string;
+  baseArgs: string[];
+  // Whether the API key goes in `apiKeyEnvVar` or replaces a placeholder arg
+  apiKey: ApiKeyPassing;
+  // Setup and chat turns run as the same user, so they share one home directory and session store
+  sudo: boolean;
+  outputFormat: 'json' | 'jsonl';
+  // Args selecting the tool's JSON output, appended after the session args
+  outputArgs: string[];
+  // Line-delimited JSON event mode, for tools that can stream their progress
+  streaming?: {
+    outputArgs: string[];
+    parseEvent: (event: Record<string, unknown>) => ToolStreamUpdate[];
+  };
+}
+
+export interface ToolResultMetadata {
+  duration_ms?: number;
+  total_cost_usd?: number;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+  };
+}
+
+export type ToolStreamUpdate =
+  | { type: 'session'; sessionId: string }
+  // A new text block begins (e.g. after a tool call), so it is separated from earlier text
+  | { type: 'text-start' }
+  | { type: 'text-delta'; delta: string }
+  | { type: 'tool-call'; toolCallId: string; name: string; input: unknown }
+  | { type: 'tool-result'; toolCallId: string; output: string; isError?: boolean }
+  // Marks when the agent starts thinking, for tools that report it separately from the thoughts
+  | { type: 'reasoning-start' }
+  | { type: 'reasoning'; text: string }
+  | { type: 'result'; result?: string; sessionId?: string; metadata: ToolResultMetadata }
+  | { type: 'error'; message: string };
+
+// Payload of the `data-tool-call` parts streamed by the chat route, keyed by toolCallId
+export interface ToolCallData {
+  toolCallId: string;
+  name: string;
+  input: unknown;
+  state: 'input-available' | 'output-available' | 'output-error';
+  output?: string;
+  errorText?: string;
+}
+
+// Payload of the `data-reasoning` parts streamed by the chat route
+export interface ReasoningData {
+  text: string;
+  duration: number;
+}
+
+export interface ToolInvocation {
+  cmd: string;
+  args: string[];
+  env: Record<string, string>;
+  sudo: boolean;
+}
+
 export interface AIToolConfig {
   name: string;
   displayName: string;
   apiKeyLabel: string;
   apiKeyEnvVar: string;
+  apiKeyPlaceholder: string;
   installation: {
     command: string;
     args: string[];
@@ -38,6 +121,7 @@ export interface AIToolConfig {
     name: string;
     commonPaths: string[];
   };
+  invocation: ToolInvocationSpec;
   verification: {
     helpCommand: {
       args: string[];
@@ -47,14 +131,28 @@ export interface AIToolConfig {
     };
   };
   sessionConfig: SessionConfig;
+  promptArgs: (prompt: string) => string[];
+  normalizeOutput?: (output: unknown) => Record<string, unknown>;
+  extractResult: (response: unknown) => string | null;
 }
 
-export const AI_TOOLS_CONFIG: Record<AITool, AIToolConfig> = {
+const promptFlagArgs = (prompt: string): string[] => ['-p', prompt];
+
+const extractResultField = (response: unknown): string | null => {
+  if (response && typeof response === 'object' && 'result' in response) {
+    const result = (response as { result: unknown }).result;
+    return typeof result === 'string' ? result : null;
+  }
+  return null;
+};
+
+export const AI_TOOLS_CONFIG: Record<BuiltInAITool, AIToolConfig> = {
   'claude-code': {
     name: 'claude-code',
     displayName: 'Claude Code',
     apiKeyLabel: 'Anthropic API Key',
     apiKeyEnvVar: 'ANTHROPIC_API_KEY',
+    apiKeyPlaceholder: 'sk-ant-xxx...',
     installation: {
       command: 'bash',
       args: ['-c', 'npm install -g @anthropic-ai/claude-code'],
@@ -70,17 +168,30 @@ export const AI_TOOLS_CONFIG: Record<AITool, AIToolConfig> = {
         '/usr/local/lib/node_modules/@anthropic-ai/claude-code/dist/cli.js'
       ]
     },
+    invocation: {
+      command: 'npx',
+      baseArgs: ['@anthropic-ai/claude-code'],
+      apiKey: { type: 'env' },
+      sudo: false,
+      outputFormat: 'json',
+      outputArgs: ['--output-format', 'json'],
+      streaming: {
+        outputArgs: ['--output-format', 'stream-json', '--verbose', '--include-partial-messages'],
+        parseEvent: parseClaudeStreamEvent
+      }
+    },
     verification: {
       helpCommand: {
         args: ['--help']
       },
       promptCommand: {
-        args: ['-p', 'hello', '--output-format', 'json', '--dangerously-skip-permissions']
+        args: ['--dangerously-skip-permissions']
       }
     },
     sessionConfig: {
-      resumeCommand: (sessionId: string) => ['--resume', sessionId, '--output-format', 'json', '--dangerously-skip-permissions'],
-      continueCommand: ['--continue', '--output-format', 'json', '--dangerously-skip-permissions'],
+      resumeCommand: (sessionId: string) => ['--resume', sessionId, '--dangerously-skip-permissions'],
+      continueCommand: ['--continue', '--dangerously-skip-permissions'],
+      stateDirs: ['.claude/projects'],
       extractSessionId: (response: unknown) => {
         if (typeof response === 'string') {
           try {
@@ -100,13 +211,16 @@ export const AI_TOOLS_CONFIG: Record<AITool, AIToolConfig> = {
         }
         return null;
       }
-    }
+    },
+    promptArgs: promptFlagArgs,
+    extractResult: extractResultField
   },
   'cursor-cli': {
     name: 'cursor-cli',
     displayName: 'Cursor CLI',
     apiKeyLabel: 'Cursor API Key',
     apiKeyEnvVar: 'CURSOR_API_KEY',
+    apiKeyPlaceholder: 'cur_xxx...',
     installation: {
       command: 'bash',
       args: ['-c', 'curl -fsSL https://cursor.com/install | bash'],
@@ -122,18 +236,32 @@ export const AI_TOOLS_CONFIG: Record<AITool, AIToolConfig> = {
         '/root/.local/share/cursor-agent/versions/*/cursor-agent'
       ]
     },
+    invocation: {
+      command: 'cursor-agent',
+      baseArgs: [],
+      apiKey: { type: 'flag', placeholder: 'CURSOR_API_KEY_PLACEHOLDER' },
+      // Chat turns have always run as the default user; only the installer needs root
+      sudo: false,
+      outputFormat: 'json',
+      outputArgs: ['--output-format', 'json'],
+      streaming: {
+        outputArgs: ['--output-format', 'stream-json', '--stream-partial-output'],
+        parseEvent: parseCursorStreamEvent
+      }
+    },
     verification: {
       helpCommand: {
         args: ['--help']
       },
       promptCommand: {
-        args: ['-a', 'CURSOR_API_KEY_PLACEHOLDER', '-p', 'hello', '--output-format', 'json']
+        args: ['-a', 'CURSOR_API_KEY_PLACEHOLDER']
       }
     },
     sessionConfig: {
-      resumeCommand: (sessionId: string) => ['-a', 'CURSOR_API_KEY_PLACEHOLDER', '--resume', sessionId, '--output-format', 'json'],
-      continueCommand: ['-a', 'CURSOR_API_KEY_PLACEHOLDER', 'resume', '--output-format', 'json'],
+      resumeCommand: (sessionId: string) => ['-a', 'CURSOR_API_KEY_PLACEHOLDER', '--resume', sessionId],
+      continueCommand: ['-a', 'CURSOR_API_KEY_PLACEHOLDER', 'resume'],
       listCommand: ['ls'],
+      stateDirs: ['.cursor/chats'],
       extractSessionId: (response: unknown) => {
         if (typeof response === 'string') {
           try {
@@ -156,16 +284,464 @@ export const AI_TOOLS_CONFIG: Record<AITool, AIToolConfig> = {
         }
         return null;
       }
+    },
+    promptArgs: promptFlagArgs,
+    extractResult: extractResultField
+  },
+  'gemini-cli': {
+    name: 'gemini-cli',
+    displayName: 'Gemini CLI',
+    apiKeyLabel: 'Gemini API Key',
+    apiKeyEnvVar: 'GEMINI_API_KEY',
+    apiKeyPlaceholder: 'AIzaxxx...',
+    installation: {
+      command: 'bash',
+      args: ['-c', 'npm install -g @google/gemini-cli'],
+      sudo: true
+    },
+    executable: {
+      name: 'gemini',
+      commonPaths: [
+        '/usr/local/bin/gemini',
+        '/usr/bin/gemini',
+        '/root/.npm-global/bin/gemini',
+        '/home/vercel-sandbox/.npm-global/bin/gemini',
+        '/usr/local/lib/node_modules/@google/gemini-cli/dist/index.js'
+      ]
+    },
+    invocation: {
+      command: 'gemini',
+      baseArgs: [],
+      apiKey: { type: 'env' },
+      sudo: false,
+      outputFormat: 'json',
+      outputArgs: ['--output-format', 'json'],
+      streaming: {
+        outputArgs: ['--output-format', 'stream-json'],
+        parseEvent: parseGeminiStreamEvent
+      }
+    },
+    verification: {
+      helpCommand: {
+        args: ['--help']
+      },
+      promptCommand: {
+        args: ['--yolo']
+      }
+    },
+    sessionConfig: {
+      resumeCommand: (sessionId: string) => ['--resume', sessionId, '--yolo'],
+      continueCommand: ['--resume', 'latest', '--yolo'],
+      listCommand: ['--list-sessions'],
+      extractSessionId: (response: unknown) => {
+        if (typeof response === 'string') {
+          try {
+            response = JSON.parse(response);
+          } catch {
+            return null;
+          }
+        }
+        // JSON output is a single object: { session_id, response, stats }
+        if (response && typeof response === 'object' && ('session_id' in response || 'sessionId' in response)) {
+          const obj = response as { session_id?: unknown; sessionId?: unknown };
+          return String(obj.session_id || obj.sessionId);
+        }
+        return null;
+      }
+    },
+    promptArgs: promptFlagArgs,
+    extractResult: (response: unknown) => {
+      if (response && typeof response === 'object' && 'response' in response) {
+        const result = (response as { response: unknown }).response;
+        return typeof result === 'string' ? result : null;
+      }
+      return null;
+    }
+  },
+  'codex': {
+    name: 'codex',
+    displayName: 'OpenAI Codex',
+    apiKeyLabel: 'OpenAI API Key',
+    apiKeyEnvVar: 'OPENAI_API_KEY',
+    apiKeyPlaceholder: 'sk-proj-xxx...',
+    installation: {
+      command: 'bash',
+      args: ['-c', 'npm install -g @openai/codex'],
+      sudo: true
+    },
+    executable: {
+      name: 'codex',
+      commonPaths: [
+        '/usr/local/bin/codex',
+        '/usr/bin/codex',
+        '/root/.npm-global/bin/codex',
+        '/home/vercel-sandbox/.npm-global/bin/codex',
+        '/usr/local/lib/node_modules/@openai/codex/bin/codex.js'
+      ]
+    },
+    invocation: {
+      command: 'codex',
+      baseArgs: [],
+      apiKey: { type: 'env' },
+      sudo: false,
+      outputFormat: 'jsonl',
+      // --json is an `exec` flag, so it lives in the session args
+      outputArgs: [],
+      streaming: {
+        outputArgs: [],
+        parseEvent: parseCodexStreamEvent
+      }
+    },
+    verification: {
+      helpCommand: {
+        args: ['--help']
+      },
+      promptCommand: {
+        args: ['exec', '--json', '--skip-git-repo-check', '--dangerously-bypass-approvals-and-sandbox']
+      }
+    },
+    sessionConfig: {
+      resumeCommand: (sessionId: string) => ['exec', '--json', '--skip-git-repo-check', '--dangerously-bypass-approvals-and-sandbox', 'resume', sessionId],
+      continueCommand: ['exec', '--json', '--skip-git-repo-check', '--dangerously-bypass-approvals-and-sandbox', 'resume', '--last'],
+      stateDirs: ['.codex/sessions'],
+      extractSessionId: (response: unknown) => {
+        if (typeof response === 'string') {
+          try {
+            response = parseToolOutput('codex', response);
+          } catch {
+            return null;
+          }
+        }
+        if (response && typeof response === 'object' && 'session_id' in response && response.session_id) {
+          return String(response.session_id);
+        }
+        return null;
+      }
+    },
+    // Codex takes the prompt as a positional argument (-p selects a config profile)
+    promptArgs: (prompt: string) => [prompt],
+    normalizeOutput: (output: unknown) => foldCodexEvents(output as CodexEvent[]),
+    extractResult: extractResultField
+  }
+};
+
+interface CodexEvent {
+  type?: string;
+  thread_id?: string;
+  item?: { type?: string; text?: string };
+  usage?: { input_tokens?: number; output_tokens?: number };
+  // Older releases wrap events as { id, msg: { type, ... } }
+  msg?: { type?: string; session_id?: string; message?: string };
+}
+
+// Fold `codex exec --json` events into the same { session_id, result, usage }
+// shape the other tools return.
+function foldCodexEvents(events: CodexEvent[]): Record<string, unknown> {
+  const output: Record<string, unknown> = { events };
+  for (const event of events) {
+    if (event.type === 'thread.started' && event.thread_id) {
+      output.session_id = event.thread_id;
+    } else if (event.msg?.type === 'session_configured' && event.msg.session_id) {
+      output.session_id = event.msg.session_id;
+    } else if (event.type === 'item.completed' && event.item?.type === 'agent_message') {
+      output.result = event.item.text;
+    } else if (event.msg?.type === 'agent_message') {
+      output.result = event.msg.message;
+    } else if (event.type === 'turn.completed' && event.usage) {
+      output.usage = {
+        input_tokens: event.usage.input_tokens,
+        output_tokens: event.usage.output_tokens,
+      };
     }
   }
+  return output;
+}
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+const asNumber = (value: unknown): number | undefined =>
+  typeof value === 'number' ? value : undefined;
+
+function usageMetadata(usage: unknown): ToolResultMetadata['usage'] {
+  const { input_tokens, output_tokens } = asRecord(usage);
+  if (input_tokens === undefined && output_tokens === undefined) return undefined;
+  return { input_tokens: asNumber(input_tokens), output_tokens: asNumber(output_tokens) };
+}
+
+// Claude Code and Cursor CLI share the same stream-json envelope for init and result events
+function parseResultEvent(event: Record<string, unknown>): ToolStreamUpdate[] {
+  if (event.is_error) {
+    return [{ type: 'error', message: asString(event.result) || 'Agent run failed' }];
+  }
+  return [{
+    type: 'result',
+    result: asString(event.result),
+    sessionId: asString(event.session_id),
+    metadata: {
+      duration_ms: asNumber(event.duration_ms),
+      total_cost_usd: asNumber(event.total_cost_usd),
+      usage: usageMetadata(event.usage),
+    },
+  }];
+}
+
+const contentBlocks = (event: Record<string, unknown>): Record<string, unknown>[] => {
+  const content = asRecord(event.message).content;
+  return Array.isArray(content) ? content.map(asRecord) : [];
 };
 
+// Tool results are either plain text or a list of content blocks
+function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content.map((block) => asString(asRecord(block).text) ?? '').join('\n');
+  }
+  return content === undefined ? '' : JSON.stringify(content, null, 2);
+}
+
+function parseClaudeStreamEvent(event: Record<string, unknown>): ToolStreamUpdate[] {
+  if (event.type === 'system' && event.subtype === 'init') {
+    const sessionId = asString(event.session_id);
+    return sessionId ? [{ type: 'session', sessionId }] : [];
+  }
+  if (event.type === 'result') {
+    return parseResultEvent(event);
+  }
+
+  // Complete blocks; text is taken from the partial stream events instead
+  if (event.type === 'assistant') {
+    return contentBlocks(event).flatMap((block): ToolStreamUpdate[] => {
+      if (block.type === 'thinking' && asString(block.thinking)) {
+        return [{ type: 'reasoning', text: block.thinking as string }];
+      }
+      if (block.type === 'tool_use' && asString(block.id)) {
+        return [{ type: 'tool-call', toolCallId: block.id as string, name: asString(block.name) ?? 'tool', input: block.input }];
+      }
+      return [];
+    });
+  }
+  if (event.type === 'user') {
+    return contentBlocks(event).flatMap((block): ToolStreamUpdate[] =>
+      block.type === 'tool_result' && asString(block.tool_use_id)
+        ? [{
+            type: 'tool-result',
+            toolCallId: block.tool_use_id as string,
+            output: toolResultText(block.content),
+            isError: block.is_error === true,
+          }]
+        : []
+    );
+  }
+  if (event.type !== 'stream_event') return [];
+
+  // --include-partial-messages wraps the raw Messages API stream events
+  const inner = asRecord(event.event);
+  if (inner.type === 'content_block_start') {
+    const blockType = asRecord(inner.content_block).type;
+    if (blockType === 'text') return [{ type: 'text-start' }];
+    if (blockType === 'thinking') return [{ type: 'reasoning-start' }];
+    return [];
+  }
+  const delta = asRecord(inner.delta);
+  if (inner.type === 'content_block_delta' && delta.type === 'text_delta') {
+    const text = asString(delta.text);
+    return text ? [{ type: 'text-delta', delta: text }] : [];
+  }
+  return [];
+}
+
+function parseCursorStreamEvent(event: Record<string, unknown>): ToolStreamUpdate[] {
+  if (event.type === 'system' && event.subtype === 'init') {
+    const sessionId = asString(event.session_id);
+    return sessionId ? [{ type: 'session', sessionId }] : [];
+  }
+  if (event.type === 'result') {
+    return parseResultEvent(event);
+  }
+
+  // Tool calls are keyed by kind, e.g. { shellToolCall: { args, result } }
+  if (event.type === 'tool_call' && asString(event.call_id)) {
+    const toolCallId = event.call_id as string;
+    const [kind = 'tool', call] = Object.entries(asRecord(event.tool_call))[0] ?? [];
+    const { args, result } = asRecord(call);
+    const name = kind.replace(/ToolCall$/, '');
+    if (event.subtype === 'started') {
+      return [{ type: 'tool-call', toolCallId, name, input: args }];
+    }
+    if (event.subtype === 'completed') {
+      const { success, error } = asRecord(result);
+      return [{
+        type: 'tool-result',
+        toolCallId,
+        output: toolResultText(error ?? success ?? result),
+        isError: error !== undefined,
+      }];
+    }
+    return [];
+  }
+  if (event.type !== 'assistant') return [];
+
+  // With --stream-partial-output each assistant event carries only the new text
+  const text = contentBlocks(event)
+    .map((block) => (block.type === 'text' ? asString(block.text) ?? '' : ''))
+    .join('');
+  return text ? [{ type: 'text-delta', delta: text }] : [];
+}
+
+function parseGeminiStreamEvent(event: Record<string, unknown>): ToolStreamUpdate[] {
+  if (event.type === 'init') {
+    const sessionId = asString(event.session_id);
+    return sessionId ? [{ type: 'session', sessionId }] : [];
+  }
+  if (event.type === 'message' && event.role === 'assistant') {
+    const text = asString(event.content);
+    return text ? [{ type: 'text-delta', delta: text }] : [];
+  }
+  if (event.type === 'tool_use' && asString(event.tool_id)) {
+    return [{
+      type: 'tool-call',
+      toolCallId: event.tool_id as string,
+      name: asString(event.tool_name) ?? 'tool',
+      input: event.parameters,
+    }];
+  }
+  if (event.type === 'tool_result' && asString(event.tool_id)) {
+    const isError = event.status === 'error';
+    return [{
+      type: 'tool-result',
+      toolCallId: event.tool_id as string,
+      output: (isError ? asString(asRecord(event.error).message) : undefined) ?? toolResultText(event.output),
+      isError,
+    }];
+  }
+  if (event.type === 'error') {
+    return [{ type: 'error', message: asString(event.message) || 'Agent run failed' }];
+  }
+  if (event.type === 'result') {
+    if (event.status === 'error') {
+      return [{ type: 'error', message: asString(asRecord(event.error).message) || 'Agent run failed' }];
+    }
+    const stats = asRecord(event.stats);
+    return [{
+      type: 'result',
+      metadata: {
+        duration_ms: asNumber(stats.duration_ms),
+        usage: usageMetadata(stats),
+      },
+    }];
+  }
+  return [];
+}
+
+// Codex reports each step as an item that is started and later completed
+function parseCodexItem(item: Record<string, unknown>, completed: boolean): ToolStreamUpdate[] {
+  const toolCallId = asString(item.id);
+  if (!toolCallId) return [];
+
+  if (item.type === 'reasoning') {
+    const text = asString(item.text);
+    return completed && text ? [{ type: 'reasoning', text }] : [];
+  }
+
+  let call: { name: string; input: unknown; output: string } | null = null;
+  if (item.type === 'command_execution') {
+    call = { name: 'shell', input: { command: item.command }, output: asString(item.aggregated_output) ?? '' };
+  } else if (item.type === 'file_change') {
+    const changes = Array.isArray(item.changes) ? item.changes.map(asRecord) : [];
+    call = {
+      name: 'file_change',
+      input: { changes },
+      output: changes.map((change) => `${change.kind} ${change.path}`).join('\n'),
+    };
+  } else if (item.type === 'mcp_tool_call') {
+    call = {
+      name: `${item.server}.${item.tool}`,
+      input: item.arguments,
+      output: toolResultText(asRecord(item.result).content ?? asRecord(item.error).message),
+    };
+  } else if (item.type === 'web_search') {
+    call = { name: 'web_search', input: { query: item.query }, output: '' };
+  }
+  if (!call) return [];
+
+  const updates: ToolStreamUpdate[] = [{ type: 'tool-call', toolCallId, name: call.name, input: call.input }];
+  if (completed) {
+    const isError = item.status === 'failed' || (typeof item.exit_code === 'number' && item.exit_code !== 0);
+    updates.push({ type: 'tool-result', toolCallId, output: call.output, isError });
+  }
+  return updates;
+}
+
+// Codex emits whole agent messages rather than token deltas, so each one arrives as a block
+function parseCodexStreamEvent(event: Record<string, unknown>): ToolStreamUpdate[] {
+  if ((event.type === 'item.started' || event.type === 'item.completed') && asRecord(event.item).type !== 'agent_message') {
+    return parseCodexItem(asRecord(event.item), event.type === 'item.completed');
+  }
+
+  const { session_id, result, usage } = foldCodexEvents([event as CodexEvent]);
+  if (typeof session_id === 'string') {
+    return [{ type: 'session', sessionId: session_id }];
+  }
+  if (typeof result === 'string') {
+    return [{ type: 'text-start' }, { type: 'text-delta', delta: result }];
+  }
+  if (usage) {
+    return [{ type: 'result', metadata: { usage: usageMetadata(usage) } }];
+  }
+  if (event.type === 'turn.failed' || event.type === 'error') {
+    const message = asString(asRecord(event.error).message) ?? asString(event.message);
+    return [{ type: 'error', message: message || 'Agent run failed' }];
+  }
+  return [];
+}
+
+function parseJsonLines(stdout: string): unknown[] {
+  const events = stdout
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.startsWith('{'))
+    .map((line) => JSON.parse(line));
+  if (events.length === 0) {
+    throw new Error('No JSON events in output');
+  }
+  return events;
+}
+
+// Tools registered at runtime from a custom agents manifest
+const customToolsConfig: Record<string, AIToolConfig> = {};
+
+export function isBuiltInAITool(tool: unknown): tool is BuiltInAITool {
+  return typeof tool === 'string' && Object.prototype.hasOwnProperty.call(AI_TOOLS_CONFIG, tool);
+}
+
+export function isAITool(tool: unknown): tool is AITool {
+  return isBuiltInAITool(tool) ||
+    (typeof tool === 'string' && Object.prototype.hasOwnProperty.call(customToolsConfig, tool));
+}
+
+// Replace the registered custom tools, so agents removed from the manifest go away
+export function setCustomAITools(configs: AIToolConfig[]): void {
+  for (const name of Object.keys(customToolsConfig)) {
+    delete customToolsConfig[name];
+  }
+  for (const config of configs) {
+    if (isBuiltInAITool(config.name)) {
+      throw new Error(`Custom agent "${config.name}" conflicts with a built-in tool`);
+    }
+    customToolsConfig[config.name] = config;
+  }
+}
+
 export function getAIToolConfig(tool: AITool): AIToolConfig {
-  return AI_TOOLS_CONFIG[tool];
+  return isBuiltInAITool(tool) ? AI_TOOLS_CONFIG[tool] : customToolsConfig[tool];
 }
 
 export function getAllAITools(): { value: AITool; label: string }[] {
-  return Object.entries(AI_TOOLS_CONFIG).map(([key, config]) => ({
+  return [...Object.entries(AI_TOOLS_CONFIG), ...Object.entries(customToolsConfig)].map(([key, config]) => ({
     value: key as AITool,
     label: config.displayName
   }));
@@ -176,6 +752,22 @@ export function extractSessionIdFromResponse(tool: AITool, response: unknown): s
   return config.sessionConfig.extractSessionId(response);
 }
 
+export function extractResultFromResponse(tool: AITool, response: unknown): string | null {
+  const config = getAIToolConfig(tool);
+  return config.extractResult(response);
+}
+
+export function parseToolOutput(tool: AITool, stdout: string): Record<string, unknown> {
+  const config = getAIToolConfig(tool);
+  const output = config.invocation.outputFormat === 'jsonl' ? parseJsonLines(stdout) : JSON.parse(stdout);
+  return config.normalizeOutput ? config.normalizeOutput(output) : output;
+}
+
+export function getPromptArgs(tool: AITool, prompt: string): string[] {
+  const config = getAIToolConfig(tool);
+  return config.promptArgs(prompt);
+}
+
 export function getResumeCommand(tool: AITool, sessionId: string): string[] {
   const config = getAIToolConfig(tool);
   return config.sessionConfig.resumeCommand(sessionId);
@@ -189,4 +781,50 @@ export function getContinueCommand(tool: AITool): string[] {
 export function getListSessionsCommand(tool: AITool): string[] | null {
   const config = getAIToolConfig(tool);
   return config.sessionConfig.listCommand || null;
-}
\ No newline at end of file
+}
+
+export interface ToolInvocationOptions {
+  apiKey: string;
+  prompt: string;
+  // Resume this session; takes precedence over continueSession
+  sessionId?: string | null;
+  // Continue the latest session instead of starting a new one
+  continueSession?: boolean;
+  // Ask for line-delimited events when the tool supports streaming
+  stream?: boolean;
+}
+
+// Build the command that sends a prompt to a tool, driven entirely by its config
+export function buildToolInvocation(tool: AITool, options: ToolInvocationOptions): ToolInvocation {
+  const config = getAIToolConfig(tool);
+  const { invocation } = config;
+
+  let sessionArgs: string[];
+  if (options.sessionId) {
+    sessionArgs = config.sessionConfig.resumeCommand(options.sessionId);
+  } else if (options.continueSession) {
+    sessionArgs = config.sessionConfig.continueCommand;
+  } else {
+    sessionArgs = config.verification.promptCommand.args;
+  }
+
+  const outputArgs = options.stream && invocation.streaming
+    ? invocation.streaming.outputArgs
+    : invocation.outputArgs;
+
+  let args = [...invocation.baseArgs, ...sessionArgs, ...outputArgs, ...config.promptArgs(options.prompt)];
+  const env: Record<string, string> = {};
+  if (invocation.apiKey.type === 'flag') {
+    const { placeholder } = invocation.apiKey;
+    args = args.map((arg) => (arg === placeholder ? options.apiKey : arg));
+  } else {
+    env[config.apiKeyEnvVar] = options.apiKey;
+  }
+
+  return {
+    cmd: invocation.command,
+    args,
+    env,
+    sudo: invocation.sudo,
+  };
+}
@@ -3,4 +3,11 @@ export const MIN_SANDBOX_ALIVE_TIME_MS = 1 * 60 * 1000; // 1 minute in milliseco
 export const MAX_SANDBOX_ALIVE_TIME_MS = 10 * 60 * 1000; // 10 minutes in milliseconds
 
 // For backward compatibility
-export const SANDBOX_ALIVE_TIME_MS = DEFAULT_SANDBOX_ALIVE_TIME_MS;
\ No newline at end of file
+export const SANDBOX_ALIVE_TIME_MS = DEFAULT_SANDBOX_ALIVE_TIME_MS;
+// Ports exposed for web previews when none are requested
+export const DEFAULT_SANDBOX_PORTS = [3000];
+export const MAX_SANDBOX_PORTS = 4;
+// Where sandboxes, sessions and transcripts are kept: the browser's localStorage, or the
+// server's SQLite database so they survive across browsers (NEXT_PUBLIC_STORAGE_MODE=server)
+export const STORAGE_MODE: "local" | "server" =
+  process.env.NEXT_PUBLIC_STORAGE_MODE === "server" ? "server" : "local";
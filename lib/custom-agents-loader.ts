@@ -0,0 +1,56 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { setCustomAITools } from './ai-tools-config';
+import { CustomAgentDefinition, parseCustomAgentManifest, toAIToolConfig } from './custom-agents';
+
+// mtimeMs is null while the manifest is missing
+let cached: { path: string; mtimeMs: number | null; agents: CustomAgentDefinition[] } | null = null;
+
+async function getModifiedTime(filePath: string): Promise<number | null> {
+  try {
+    return (await fs.stat(filePath)).mtimeMs;
+  } catch {
+    return null;
+  }
+}
+
+async function readManifest(filePath: string): Promise<CustomAgentDefinition[]> {
+  let raw: unknown;
+  try {
+    const contents = await fs.readFile(filePath, 'utf8');
+    const extension = path.extname(filePath).toLowerCase();
+    raw = extension === '.yaml' || extension === '.yml' ? YAML.parse(contents) : JSON.parse(contents);
+  } catch (error) {
+    console.error(`Failed to read custom agents manifest ${filePath}:`, error);
+    return [];
+  }
+
+  const { agents, errors } = parseCustomAgentManifest(raw);
+  for (const error of errors) {
+    console.error(`Skipping invalid entry in custom agents manifest ${filePath}: ${error}`);
+  }
+  return agents;
+}
+
+// Load, validate and register the agents from the CUSTOM_AGENTS_MANIFEST file (JSON or YAML),
+// reloading it when it changes. A missing or broken manifest registers no agents, and invalid
+// entries are skipped; both are logged rather than failing the caller.
+export async function loadCustomAgents(): Promise<CustomAgentDefinition[]> {
+  const manifestPath = process.env.CUSTOM_AGENTS_MANIFEST;
+  if (!manifestPath) return [];
+
+  const resolvedPath = path.resolve(process.cwd(), manifestPath);
+  const mtimeMs = await getModifiedTime(resolvedPath);
+  if (cached && cached.path === resolvedPath && cached.mtimeMs === mtimeMs) {
+    return cached.agents;
+  }
+
+  if (mtimeMs === null) {
+    console.error(`Custom agents manifest ${resolvedPath} not found`);
+  }
+  const agents = mtimeMs === null ? [] : await readManifest(resolvedPath);
+  setCustomAITools(agents.map(toAIToolConfig));
+  cached = { path: resolvedPath, mtimeMs, agents };
+  return agents;
+}
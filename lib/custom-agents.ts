@@ -0,0 +1,155 @@
+import { z } from 'zod';
+import { AIToolConfig, isBuiltInAITool } from './ai-tools-config';
+
+export const PROMPT_PLACEHOLDER = '{prompt}';
+export const SESSION_ID_PLACEHOLDER = '{sessionId}';
+
+const argsSchema = z.array(z.string());
+
+const commandArgsSchema = z.object({
+  args: argsSchema,
+});
+
+export const customAgentSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'Use lowercase letters, digits and dashes'),
+  displayName: z.string().min(1),
+  apiKeyLabel: z.string().min(1),
+  apiKeyEnvVar: z.string().regex(/^[A-Z_][A-Z0-9_]*$/, 'Must be a valid environment variable name'),
+  apiKeyPlaceholder: z.string().default(''),
+  installation: z.object({
+    command: z.string().min(1),
+    args: argsSchema.default([]),
+    sudo: z.boolean().default(false),
+  }),
+  executable: z.object({
+    name: z.string().min(1),
+    commonPaths: argsSchema.default([]),
+  }),
+  invocation: z.object({
+    command: z.string().min(1),
+    baseArgs: argsSchema.default([]),
+    apiKey: z
+      .discriminatedUnion('type', [
+        z.object({ type: z.literal('env') }),
+        z.object({ type: z.literal('flag'), placeholder: z.string().min(1) }),
+      ])
+      .default({ type: 'env' }),
+    sudo: z.boolean().default(false),
+    outputFormat: z.enum(['json', 'jsonl']).default('json'),
+    // Appended after the session args, before promptArgs
+    outputArgs: argsSchema.default([]),
+  }),
+  verification: z.object({
+    helpCommand: commandArgsSchema.default({ args: ['--help'] }),
+    // Args for a new session, before promptArgs
+    promptCommand: commandArgsSchema,
+  }),
+  sessionConfig: z.object({
+    resumeCommand: argsSchema.refine((args) => args.includes(SESSION_ID_PLACEHOLDER), {
+      message: `Must contain the ${SESSION_ID_PLACEHOLDER} placeholder`,
+    }),
+    continueCommand: argsSchema,
+    listCommand: argsSchema.optional(),
+    // Home-relative directories holding the agent's sessions, e.g. ".my-agent/sessions"
+    stateDirs: argsSchema.optional(),
+    // Dot-separated path to the session ID in the tool's JSON output, e.g. "session_id"
+    sessionIdPath: z.string().min(1),
+  }),
+  promptArgs: argsSchema.default(['-p', PROMPT_PLACEHOLDER]).refine((args) => args.includes(PROMPT_PLACEHOLDER), {
+    message: `Must contain the ${PROMPT_PLACEHOLDER} placeholder`,
+  }),
+  // Dot-separated path to the final answer in the tool's JSON output
+  resultPath: z.string().min(1).default('result'),
+});
+
+// Entries are validated one at a time, so one broken agent doesn't hide the others
+const customAgentManifestSchema = z.object({
+  agents: z.array(z.unknown()),
+});
+
+export type CustomAgentDefinition = z.infer<typeof customAgentSchema>;
+
+// The manifest's valid agents, and why the others were skipped
+export function parseCustomAgentManifest(raw: unknown): { agents: CustomAgentDefinition[]; errors: string[] } {
+  const manifest = customAgentManifestSchema.safeParse(raw);
+  if (!manifest.success) {
+    return { agents: [], errors: [z.prettifyError(manifest.error)] };
+  }
+
+  const agents: CustomAgentDefinition[] = [];
+  const errors: string[] = [];
+  manifest.data.agents.forEach((entry, index) => {
+    const result = customAgentSchema.safeParse(entry);
+    if (!result.success) {
+      errors.push(`Agent ${index + 1}:\n${z.prettifyError(result.error)}`);
+    } else if (isBuiltInAITool(result.data.name)) {
+      errors.push(`Agent ${index + 1}: "${result.data.name}" conflicts with a built-in tool`);
+    } else if (agents.some((agent) => agent.name === result.data.name)) {
+      errors.push(`Agent ${index + 1}: "${result.data.name}" is already defined`);
+    } else {
+      agents.push(result.data);
+    }
+  });
+  return { agents, errors };
+}
+
+function getJsonPath(value: unknown, path: string): unknown {
+  let current = value;
+  for (const segment of path.split('.')) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+// JSON-lines output is an array of events: look the path up on each event,
+// taking the first match (session IDs) or the last one (final results).
+function findJsonPath(response: unknown, path: string, match: 'first' | 'last'): unknown {
+  if (!Array.isArray(response)) return getJsonPath(response, path);
+  const events = match === 'first' ? response : [...response].reverse();
+  for (const event of events) {
+    const value = getJsonPath(event, path);
+    if (value !== undefined && value !== null) return value;
+  }
+  return undefined;
+}
+
+const fillPlaceholder = (args: string[], placeholder: string, value: string): string[] =>
+  args.map((arg) => (arg === placeholder ? value : arg));
+
+export function toAIToolConfig(agent: CustomAgentDefinition): AIToolConfig {
+  return {
+    name: agent.name,
+    displayName: agent.displayName,
+    apiKeyLabel: agent.apiKeyLabel,
+    apiKeyEnvVar: agent.apiKeyEnvVar,
+    apiKeyPlaceholder: agent.apiKeyPlaceholder,
+    installation: agent.installation,
+    executable: agent.executable,
+    invocation: agent.invocation,
+    verification: agent.verification,
+    sessionConfig: {
+      resumeCommand: (sessionId: string) =>
+        fillPlaceholder(agent.sessionConfig.resumeCommand, SESSION_ID_PLACEHOLDER, sessionId),
+      continueCommand: agent.sessionConfig.continueCommand,
+      listCommand: agent.sessionConfig.listCommand,
+      stateDirs: agent.sessionConfig.stateDirs,
+      extractSessionId: (response: unknown) => {
+        if (typeof response === 'string') {
+          try {
+            response = JSON.parse(response);
+          } catch {
+            return null;
+          }
+        }
+        const sessionId = findJsonPath(response, agent.sessionConfig.sessionIdPath, 'first');
+        return sessionId === undefined || sessionId === null ? null : String(sessionId);
+      },
+    },
+    promptArgs: (prompt: string) => fillPlaceholder(agent.promptArgs, PROMPT_PLACEHOLDER, prompt),
+    extractResult: (response: unknown) => {
+      const result = findJsonPath(response, agent.resultPath, 'last');
+      return typeof result === 'string' ? result : null;
+    },
+  };
+}
@@ -0,0 +1,35 @@
+import { CreatePullRequestParams, GitHostClient, PullRequest, getRepositoryPath, readJsonResponse } from "./types";
+
+// GitHub Enterprise serves the API under /api/v3 of its own host
+function getApiUrl(repositoryUrl: string): string {
+  if (process.env.GIT_HOST_API_URL) return process.env.GIT_HOST_API_URL;
+  const { host } = new URL(repositoryUrl);
+  return host === "github.com" ? "https://api.github.com" : `https://${host}/api/v3`;
+}
+
+export const githubClient: GitHostClient = {
+  name: "github",
+  displayName: "GitHub",
+
+  createPullRequest: async (params: CreatePullRequestParams): Promise<PullRequest> => {
+    // Always owner/repo, even when a fake server is reached through a longer file:// path
+    const repositoryPath = getRepositoryPath(params.repositoryUrl).split("/").slice(-2).join("/");
+    const response = await fetch(`${getApiUrl(params.repositoryUrl)}/repos/${repositoryPath}/pulls`, {
+      method: "POST",
+      headers: {
+        Accept: "application/vnd.github+json",
+        Authorization: `Bearer ${params.token}`,
+        "Content-Type": "application/json",
+        "X-GitHub-Api-Version": "2022-11-28",
+      },
+      body: JSON.stringify({
+        title: params.title,
+        body: params.body,
+        head: params.sourceBranch,
+        base: params.targetBranch,
+      }),
+    });
+    const data = await readJsonResponse<{ number: number; html_url: string }>(response, "create the pull request");
+    return { number: data.number, url: data.html_url };
+  },
+};
@@ -0,0 +1,32 @@
+import { CreatePullRequestParams, GitHostClient, PullRequest, getRepositoryPath, readJsonResponse } from "./types";
+
+// Self-managed GitLab serves the API under /api/v4 of its own host
+function getApiUrl(repositoryUrl: string): string {
+  if (process.env.GIT_HOST_API_URL) return process.env.GIT_HOST_API_URL;
+  return `https://${new URL(repositoryUrl).host}/api/v4`;
+}
+
+export const gitlabClient: GitHostClient = {
+  name: "gitlab",
+  displayName: "GitLab",
+
+  // GitLab calls pull requests merge requests
+  createPullRequest: async (params: CreatePullRequestParams): Promise<PullRequest> => {
+    const projectId = encodeURIComponent(getRepositoryPath(params.repositoryUrl));
+    const response = await fetch(`${getApiUrl(params.repositoryUrl)}/projects/${projectId}/merge_requests`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${params.token}`,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        title: params.title,
+        description: params.body,
+        source_branch: params.sourceBranch,
+        target_branch: params.targetBranch,
+      }),
+    });
+    const data = await readJsonResponse<{ iid: number; web_url: string }>(response, "create the merge request");
+    return { number: data.iid, url: data.web_url };
+  },
+};
@@ -0,0 +1,26 @@
+import { GitHostClient } from "./types";
+import { githubClient } from "./github";
+import { gitlabClient } from "./gitlab";
+
+export * from "./types";
+
+export const GIT_HOST_CLIENTS: Record<string, GitHostClient> = {
+  github: githubClient,
+  gitlab: gitlabClient,
+};
+
+// Pick the client from the GIT_HOST env var, or from the repository's host name. Setting GIT_HOST
+// and GIT_HOST_API_URL points pull requests at any server speaking that API, e.g. a local fake.
+export function getGitHostClient(repositoryUrl: string): GitHostClient {
+  const name = process.env.GIT_HOST || new URL(repositoryUrl).hostname.match(/github|gitlab/)?.[0];
+  if (!name) {
+    throw new Error(`Can't tell which Git host serves ${repositoryUrl}. Set GIT_HOST to one of: ${Object.keys(GIT_HOST_CLIENTS).join(", ")}`);
+  }
+  const client = GIT_HOST_CLIENTS[name];
+  if (!client) {
+    throw new Error(
+      `Unknown Git host "${name}". Expected one of: ${Object.keys(GIT_HOST_CLIENTS).join(", ")}`
+    );
+  }
+  return client;
+}
@@ -0,0 +1,42 @@
+export interface CreatePullRequestParams {
+  // Clone URL of the repository, e.g. https://github.com/owner/repo.git
+  repositoryUrl: string;
+  // Branch with the changes, already pushed
+  sourceBranch: string;
+  targetBranch: string;
+  title: string;
+  body?: string;
+  token: string;
+}
+
+export interface PullRequest {
+  number: number;
+  url: string;
+}
+
+// A Git hosting service's REST API, as far as opening pull requests goes
+export interface GitHostClient {
+  readonly name: string;
+  readonly displayName: string;
+  createPullRequest(params: CreatePullRequestParams): Promise<PullRequest>;
+}
+
+// The repository's path on its host, e.g. "owner/repo" (GitLab allows nested groups)
+export function getRepositoryPath(repositoryUrl: string): string {
+  const path = new URL(repositoryUrl).pathname.replace(/^\/+|\/+$/g, "").replace(/\.git$/, "");
+  if (!path.includes("/")) {
+    throw new Error(`Can't find the owner and name of the repository in ${repositoryUrl}`);
+  }
+  return path;
+}
+
+// Fail with the host's own explanation, which both GitHub and GitLab put in the JSON body
+export async function readJsonResponse<T>(response: Response, action: string): Promise<T> {
+  const data = await response.json().catch(() => null);
+  if (!response.ok) {
+    const details = data?.errors?.map?.((error: { message?: string }) => error.message).filter(Boolean).join(", ");
+    const message = [data?.message ?? data?.error, details].filter(Boolean).join(": ");
+    throw new Error(`Failed to ${action} (${response.status})${message ? `: ${message}` : ""}`);
+  }
+  return data as T;
+}
@@ -0,0 +1,50 @@
+// A Git repository cloned into the sandbox's working directory when it is created
+export interface RepositoryOptions {
+  url: string;
+  // The remote's default branch when omitted
+  branch?: string;
+  // Sent as HTTP credentials for private repositories, never stored in the checkout
+  token?: string;
+}
+
+// What was checked out, kept with the sandbox info
+export interface RepositoryInfo {
+  url: string;
+  // Both are known once the repository is cloned
+  branch?: string;
+  commit?: string;
+}
+
+// file:// lets a local bare repository stand in for a real host
+const ALLOWED_PROTOCOLS = new Set(["https:", "http:", "file:"]);
+
+// Loosely follows git check-ref-format, and keeps names from being read as options
+const BRANCH_NAME_PATTERN = /^(?!-)(?!.*\.\.)(?!.*\/\/)[\w./-]+(?<![./])$/;
+
+export function isValidBranchName(branch: string): boolean {
+  return BRANCH_NAME_PATTERN.test(branch);
+}
+
+// Returns the first problem found with the repository options, or null if they look usable
+export function validateRepositoryOptions(options: RepositoryOptions): string | null {
+  let url: URL;
+  try {
+    url = new URL(options.url);
+  } catch {
+    return "Repository URL must be a valid URL";
+  }
+  if (!ALLOWED_PROTOCOLS.has(url.protocol)) {
+    return "Repository URL must start with https://, http:// or file://";
+  }
+  // Tokens go out as HTTP headers, so they are never sent in the clear
+  if (options.token && url.protocol === "http:") {
+    return "Use an https:// repository URL when sending an access token";
+  }
+  if (url.username || url.password) {
+    return "Put the access token in its own field instead of the repository URL";
+  }
+  if (options.branch && !isValidBranchName(options.branch)) {
+    return `Invalid branch name: ${options.branch}`;
+  }
+  return null;
+}
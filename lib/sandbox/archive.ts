@@ -0,0 +1,62 @@
+import { randomUUID } from "crypto";
+import { SandboxInstance } from "./types";
+
+// Command output is decoded as text, so archives are written to a file in the sandbox
+// and read back as a stream
+const ARCHIVE_ROOT = "$HOME/.cli-on-the-cloud/archives";
+
+export type ArchiveFormat = "tar.gz" | "zip";
+
+export const ARCHIVE_CONTENT_TYPES: Record<ArchiveFormat, string> = {
+  "tar.gz": "application/gzip",
+  zip: "application/zip",
+};
+
+// Dependencies can be reinstalled and would dwarf the actual work
+const ARCHIVE_SCRIPT = `[ -d "$1" ] || exit 2
+abs=$(cd "$1" && pwd) || exit 1
+name=$(basename "$abs"); [ "$name" = / ] && name=root
+dir="${ARCHIVE_ROOT}"; mkdir -p "$dir" || exit 1
+out="$dir/$2.$3"
+case "$3" in
+  zip)
+    command -v zip >/dev/null 2>&1 || { echo "zip is not installed in the sandbox, download a tar.gz instead" >&2; exit 1; }
+    (cd "$abs" && zip -qry "$out" . -x 'node_modules/*' '*/node_modules/*' '.cli-on-the-cloud/*') || exit 1
+    ;;
+  *)
+    # Exit code 1 means files changed while being read, which is fine for a snapshot
+    tar -czf "$out" -C "$abs" --exclude=node_modules --exclude=.cli-on-the-cloud .
+    [ $? -le 1 ] || exit 1
+    ;;
+esac
+printf '%s\\n%s' "$out" "$name"`;
+
+export interface SandboxArchive {
+  // Absolute path of the archive inside the sandbox
+  path: string;
+  fileName: string;
+}
+
+// Archive a directory of the sandbox; returns null if it doesn't exist
+export async function createArchive(
+  sandbox: SandboxInstance,
+  dirPath: string,
+  format: ArchiveFormat
+): Promise<SandboxArchive | null> {
+  const result = await sandbox.runCommand({
+    cmd: "sh",
+    args: ["-c", ARCHIVE_SCRIPT, "sh", dirPath, `archive_${randomUUID()}`, format],
+  });
+  if (result.exitCode === 2) return null;
+  if (result.exitCode !== 0) {
+    const stderr = await result.stderr();
+    throw new Error(stderr.trim() || `Archiving failed with exit code ${result.exitCode}`);
+  }
+
+  const [archivePath, name] = (await result.stdout()).split("\n");
+  return { path: archivePath, fileName: `${name}.${format}` };
+}
+
+export async function removeArchive(sandbox: SandboxInstance, archive: SandboxArchive): Promise<void> {
+  await sandbox.runCommand({ cmd: "rm", args: ["-f", archive.path] });
+}
@@ -0,0 +1,308 @@
+import { randomUUID } from "crypto";
+import path from "path";
+import { Readable } from "stream";
+import {
+  CommandResult,
+  CreateSandboxOptions,
+  RunCommandParams,
+  SandboxCommand,
+  SandboxFile,
+  SandboxInstance,
+  SandboxPort,
+  SandboxProvider,
+} from "./types";
+import { DETACHED_LOG_LIMIT, spawnDetached, spawnProcess, toCommandResult } from "./spawn";
+
+interface DockerRuntimeConfig {
+  image: string;
+  // Unprivileged user for commands run without sudo
+  user: string;
+}
+
+// Base images for the runtimes accepted by Sandbox.create
+const DOCKER_RUNTIMES: Record<string, DockerRuntimeConfig> = {
+  node22: { image: "node:22", user: "node" },
+  "python3.13": { image: "python:3.13", user: "root" },
+};
+
+const WORKSPACE_DIR = "/workspace";
+// Matches Vercel Sandbox, which allocates 2048 MB of memory per vCPU
+const MEMORY_MB_PER_VCPU = 2048;
+const LABEL_PREFIX = "cli-on-the-cloud";
+// Everything else is dropped. Root commands (sudo) run through `docker exec -u root`, and still need to
+// chown and write the workspace, signal the user's processes and let package managers switch users.
+const CONTAINER_CAPABILITIES = ["CHOWN", "DAC_OVERRIDE", "FOWNER", "FSETID", "KILL", "SETUID", "SETGID", "NET_BIND_SERVICE"];
+// Enough for agents running builds and dev servers, not for a fork bomb to exhaust the host
+const CONTAINER_PIDS_LIMIT = 1024;
+
+function getDockerBinary(): string {
+  return process.env.DOCKER_PATH || "docker";
+}
+
+function getRuntimeConfig(runtime: string): DockerRuntimeConfig {
+  const config = DOCKER_RUNTIMES[runtime];
+  if (!config) {
+    throw new Error(
+      `Unsupported runtime "${runtime}" for Docker sandboxes. Expected one of: ${Object.keys(DOCKER_RUNTIMES).join(", ")}`
+    );
+  }
+  return {
+    ...config,
+    image: process.env.DOCKER_SANDBOX_IMAGE || config.image,
+  };
+}
+
+async function docker(args: string[], input?: Buffer, env?: Record<string, string>) {
+  return spawnProcess(getDockerBinary(), args, { input, env: clientEnv(env) });
+}
+
+// Values of the variables passed with `-e KEY` come from the docker client's environment,
+// so they don't show up in the host's process list
+function clientEnv(env?: Record<string, string>): NodeJS.ProcessEnv | undefined {
+  return env ? { ...process.env, ...env } : undefined;
+}
+
+const commandPidFile = (cmdId: string) => `/tmp/${cmdId}.pid`;
+
+// Runs the command in its own process group and records the group's ID, so killing it also
+// stops what it started (e.g. the command of a `bash -lc` wrapper). Forwards SIGTERM to the group.
+const DETACHED_WRAPPER = `pid_file="$1"; shift
+set -m
+"$@" &
+pid=$!
+set +m
+echo $pid > "$pid_file"
+trap 'kill -TERM -- -$pid 2>/dev/null' TERM INT
+wait $pid; status=$?
+# wait returns early when a trapped signal arrives, so wait for the real exit status
+while kill -0 $pid 2>/dev/null; do wait $pid; status=$?; done
+exit $status`;
+
+// The `docker exec` clients of detached commands live in this server process; route
+// handlers are bundled separately, so the registry is shared through globalThis.
+// Commands stay listed after they exit, so their output and exit code can still be
+// read, until the sandbox is stopped or found gone.
+interface RunningCommand {
+  sandboxId: string;
+  command: SandboxCommand;
+  finished: boolean;
+}
+
+const globalState = globalThis as typeof globalThis & {
+  __dockerSandboxCommands?: Map<string, RunningCommand>;
+};
+const runningCommands = (globalState.__dockerSandboxCommands ??= new Map());
+
+function forgetCommands(sandboxId: string) {
+  for (const [cmdId, running] of runningCommands) {
+    if (running.sandboxId === sandboxId) runningCommands.delete(cmdId);
+  }
+}
+
+class DockerSandboxInstance implements SandboxInstance {
+  constructor(
+    readonly sandboxId: string,
+    private readonly user: string
+  ) {}
+
+  private execArgs(params: { cwd?: string; env?: Record<string, string>; sudo?: boolean; interactive?: boolean }): string[] {
+    const args = ["exec"];
+    if (params.interactive) args.push("-i");
+    args.push("-u", params.sudo ? "root" : this.user);
+    args.push("-w", params.cwd ? path.posix.resolve(WORKSPACE_DIR, params.cwd) : WORKSPACE_DIR);
+    for (const key of Object.keys(params.env ?? {})) {
+      args.push("-e", key);
+    }
+    args.push(this.sandboxId);
+    return args;
+  }
+
+  async runCommand(params: RunCommandParams): Promise<CommandResult> {
+    const result = await docker([...this.execArgs(params), params.cmd, ...(params.args ?? [])], undefined, params.env);
+    return toCommandResult(result);
+  }
+
+  async runDetachedCommand(params: RunCommandParams): Promise<SandboxCommand> {
+    const cmdId = `cmd_${randomUUID()}`;
+    const pidFile = commandPidFile(cmdId);
+    // Killing the `docker exec` client leaves the process running in the container,
+    // so record its process group to signal it directly.
+    const detached = spawnDetached(getDockerBinary(), [
+      ...this.execArgs(params),
+      "bash",
+      "-c",
+      DETACHED_WRAPPER,
+      "bash",
+      pidFile,
+      params.cmd,
+      ...(params.args ?? []),
+    ], { env: clientEnv(params.env), logLimit: DETACHED_LOG_LIMIT });
+
+    const running: RunningCommand = {
+      sandboxId: this.sandboxId,
+      finished: false,
+      command: {
+        cmdId,
+        logs: detached.logs,
+        wait: async () => toCommandResult(await detached.wait()),
+        kill: async () => {
+          await this.killCommand(cmdId);
+          detached.child.kill("SIGTERM");
+        },
+      },
+    };
+
+    runningCommands.set(cmdId, running);
+    detached.wait().then(() => {
+      running.finished = true;
+    });
+    return running.command;
+  }
+
+  async getCommand(cmdId: string): Promise<SandboxCommand> {
+    const running = runningCommands.get(cmdId);
+    if (!running || running.sandboxId !== this.sandboxId) {
+      throw new Error(`Command ${cmdId} not found`);
+    }
+    return running.command;
+  }
+
+  async killCommand(cmdId: string): Promise<void> {
+    if (!/^cmd_[\w-]+$/.test(cmdId)) {
+      throw new Error(`Invalid command ID: ${cmdId}`);
+    }
+    // The process group's id may have been reused once the command exited
+    if (runningCommands.get(cmdId)?.finished) return;
+    const pidFile = commandPidFile(cmdId);
+    await docker(["exec", "-u", "root", this.sandboxId, "sh", "-c", `[ -f ${pidFile} ] && kill -TERM -- -"$(cat ${pidFile})" || true`]);
+  }
+
+  async writeFiles(files: SandboxFile[]): Promise<void> {
+    for (const file of files) {
+      const result = await docker(
+        [
+          ...this.execArgs({ interactive: true }),
+          "sh",
+          "-c",
+          'mkdir -p "$(dirname "$1")" && cat > "$1"',
+          "sh",
+          file.path,
+        ],
+        file.content
+      );
+      if (result.exitCode !== 0) {
+        throw new Error(`Failed to write ${file.path}: ${result.stderr || `exit code ${result.exitCode}`}`);
+      }
+    }
+  }
+
+  async readFile(file: { path: string; cwd?: string }): Promise<NodeJS.ReadableStream | null> {
+    const result = await docker([...this.execArgs({ cwd: file.cwd }), "cat", file.path]);
+    if (result.exitCode !== 0) return null;
+    return Readable.from(result.stdout);
+  }
+
+  // Exposed ports are published on random loopback ports of the host
+  async getPorts(): Promise<SandboxPort[]> {
+    const result = await docker(["port", this.sandboxId]);
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to list ports of ${this.sandboxId}: ${result.stderr}`);
+    }
+    const ports: SandboxPort[] = [];
+    // Lines look like "3000/tcp -> 127.0.0.1:49153"
+    for (const line of result.stdout.toString().split("\n")) {
+      const match = line.match(/^(\d+)\/tcp -> [^\s]*:(\d+)$/);
+      if (match && !ports.some((entry) => entry.port === Number(match[1]))) {
+        ports.push({ port: Number(match[1]), url: `http://localhost:${match[2]}` });
+      }
+    }
+    return ports;
+  }
+
+  async stop(): Promise<void> {
+    const result = await docker(["rm", "-f", this.sandboxId]);
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to stop container ${this.sandboxId}: ${result.stderr}`);
+    }
+    forgetCommands(this.sandboxId);
+  }
+}
+
+export const dockerSandboxProvider: SandboxProvider = {
+  name: "docker",
+  displayName: "Docker Sandbox",
+  create: async (options: CreateSandboxOptions) => {
+    const runtime = getRuntimeConfig(options.runtime);
+    const sandboxId = `docker_${randomUUID()}`;
+    const timeoutSeconds = Math.ceil(options.timeout / 1000);
+
+    // The container's main process sleeps for the sandbox timeout, so it exits
+    // (and --rm removes it) on its own once the sandbox expires.
+    const result = await docker([
+      "run",
+      "-d",
+      "--rm",
+      "--name",
+      sandboxId,
+      "--cpus",
+      String(options.resources.vcpus),
+      "--memory",
+      `${options.resources.vcpus * MEMORY_MB_PER_VCPU}m`,
+      "--pids-limit",
+      String(CONTAINER_PIDS_LIMIT),
+      "--cap-drop",
+      "ALL",
+      ...CONTAINER_CAPABILITIES.flatMap((capability) => ["--cap-add", capability]),
+      "--security-opt",
+      "no-new-privileges",
+      "--label",
+      `${LABEL_PREFIX}.sandbox=true`,
+      "--label",
+      `${LABEL_PREFIX}.user=${runtime.user}`,
+      "--label",
+      `${LABEL_PREFIX}.expires-at=${new Date(Date.now() + options.timeout).toISOString()}`,
+      ...(options.ports ?? []).flatMap((port) => ["-p", `127.0.0.1::${port}`]),
+      "--workdir",
+      WORKSPACE_DIR,
+      runtime.image,
+      "sleep",
+      String(timeoutSeconds),
+    ]);
+    if (result.exitCode !== 0) {
+      throw new Error(`Failed to start container: ${result.stderr || `exit code ${result.exitCode}`}`);
+    }
+
+    // --workdir creates the workspace as root; hand it to the unprivileged user
+    const chown = await docker(["exec", "-u", "root", sandboxId, "chown", runtime.user, WORKSPACE_DIR]);
+    if (chown.exitCode !== 0) {
+      await docker(["rm", "-f", sandboxId]);
+      throw new Error(`Container ${sandboxId} failed to initialize: ${chown.stderr}`);
+    }
+
+    return new DockerSandboxInstance(sandboxId, runtime.user);
+  },
+  get: async (sandboxId: string) => {
+    if (!/^docker_[\w-]+$/.test(sandboxId)) {
+      throw new Error(`Invalid Docker sandbox ID: ${sandboxId}`);
+    }
+
+    const result = await docker([
+      "inspect",
+      "--format",
+      `{{.State.Running}} {{index .Config.Labels "${LABEL_PREFIX}.user"}}`,
+      sandboxId,
+    ]);
+    if (result.exitCode !== 0) {
+      // Expired containers remove themselves without a stop() call
+      forgetCommands(sandboxId);
+      throw new Error(`Sandbox ${sandboxId} not found`);
+    }
+
+    const [running, user] = result.stdout.toString().trim().split(" ");
+    if (running !== "true") {
+      forgetCommands(sandboxId);
+      throw new Error(`Sandbox ${sandboxId} is not running`);
+    }
+    return new DockerSandboxInstance(sandboxId, user || "root");
+  },
+};
@@ -0,0 +1,104 @@
+import { UPLOAD_DIR } from "../uploads";
+import { SESSION_STATE_STAGING_DIR } from "./session-state";
+import { SandboxInstance } from "./types";
+
+// Snapshots of the working directory are kept in a separate bare repository, so they work
+// whether or not the working directory is a git repository and never touch the user's own.
+const SNAPSHOT_REPO = "$HOME/.cli-on-the-cloud/snapshots";
+// Dependencies and build output are large and rarely what the agent edited. Chat uploads and
+// staged session archives are written by the app rather than the agent, and left out of pull requests too.
+const SNAPSHOT_EXCLUDES = ["node_modules/", ".next/", `/${UPLOAD_DIR}/`, `/${SESSION_STATE_STAGING_DIR}/`];
+// Keep huge generated files from bloating the transcript
+const MAX_DIFF_LENGTH = 20000;
+const MAX_CHANGED_FILES = 100;
+
+export interface FileChange {
+  path: string;
+  status: "added" | "modified" | "deleted";
+  additions: number;
+  deletions: number;
+  // Unified diff, empty for binary files
+  diff: string;
+}
+
+export interface FileChangesData {
+  changes: FileChange[];
+  // Set when more files changed than are listed
+  omittedCount?: number;
+}
+
+const SNAPSHOT_SCRIPT = `command -v git >/dev/null 2>&1 || exit 0
+repo="${SNAPSHOT_REPO}"
+if [ ! -d "$repo" ]; then
+  git init -q --bare "$repo" && printf '%s\\n' ${SNAPSHOT_EXCLUDES.join(" ")} > "$repo/info/exclude" || exit 1
+fi
+export GIT_DIR="$repo" GIT_WORK_TREE="$PWD"
+git add -A . && git write-tree`;
+
+// Name/status pairs, a NUL separator, then the patch
+const DIFF_SCRIPT = `export GIT_DIR="${SNAPSHOT_REPO}"
+git -c core.quotePath=false diff --no-renames --name-status -z "$1" "$2" || exit 1
+printf '\\0'
+git diff --no-color --no-ext-diff --no-renames "$1" "$2"`;
+
+const STATUSES: Record<string, FileChange["status"]> = {
+  A: "added",
+  M: "modified",
+  D: "deleted",
+};
+
+// Record the working directory's current contents; returns null when git isn't available
+export async function takeFileSnapshot(sandbox: SandboxInstance): Promise<string | null> {
+  const result = await sandbox.runCommand({ cmd: "sh", args: ["-c", SNAPSHOT_SCRIPT] });
+  if (result.exitCode !== 0) {
+    const stderr = await result.stderr();
+    throw new Error(stderr.trim() || `Snapshot failed with exit code ${result.exitCode}`);
+  }
+  return (await result.stdout()).trim() || null;
+}
+
+export async function diffFileSnapshots(
+  sandbox: SandboxInstance,
+  before: string,
+  after: string
+): Promise<FileChangesData> {
+  if (before === after) return { changes: [] };
+
+  const result = await sandbox.runCommand({ cmd: "sh", args: ["-c", DIFF_SCRIPT, "sh", before, after] });
+  if (result.exitCode !== 0) {
+    const stderr = await result.stderr();
+    throw new Error(stderr.trim() || `Diff failed with exit code ${result.exitCode}`);
+  }
+
+  const output = await result.stdout();
+  const separator = output.indexOf("\0\0");
+  const fields = output.slice(0, separator).split("\0");
+  // Both listings come in the same order, one "diff --git" section per file
+  const patches = output.slice(separator + 2).split(/^(?=diff --git )/m).filter(Boolean);
+
+  const changes: FileChange[] = [];
+  for (let i = 0; i + 1 < fields.length; i += 2) {
+    const patch = patches[i / 2] ?? "";
+    const lines = patch.split("\n");
+    const hunkStart = lines.findIndex((line) => line.startsWith("@@"));
+    const hunks = hunkStart === -1 ? [] : lines.slice(hunkStart);
+
+    changes.push({
+      path: fields[i + 1],
+      status: STATUSES[fields[i]] ?? "modified",
+      additions: hunks.filter((line) => line.startsWith("+")).length,
+      deletions: hunks.filter((line) => line.startsWith("-")).length,
+      diff:
+        hunkStart === -1
+          ? ""
+          : patch.length > MAX_DIFF_LENGTH
+            ? `${patch.slice(0, MAX_DIFF_LENGTH)}\n… (diff truncated)`
+            : patch,
+    });
+  }
+
+  return {
+    changes: changes.slice(0, MAX_CHANGED_FILES),
+    omittedCount: changes.length > MAX_CHANGED_FILES ? changes.length - MAX_CHANGED_FILES : undefined,
+  };
+}
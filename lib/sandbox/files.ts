@@ -0,0 +1,83 @@
+import path from "path";
+import { SandboxInstance } from "./types";
+
+// Larger files are not sent to the browser; they can still be read in terminal mode
+export const MAX_FILE_SIZE_BYTES = 512 * 1024;
+
+export interface FileEntry {
+  name: string;
+  path: string;
+  type: "file" | "directory";
+  size: number;
+}
+
+export type SandboxPathInfo =
+  | { type: "directory"; path: string; entries: FileEntry[] }
+  | { type: "file"; path: string; size: number };
+
+// Prints "directory" and one "<type>\t<size>\t<name>" line per entry, or "file" and its size.
+// %Y follows symlinks, so linked directories can be browsed too.
+const STAT_SCRIPT = `if [ -d "$1" ]; then
+  echo directory
+  find -H "$1" -mindepth 1 -maxdepth 1 -printf '%Y\\t%s\\t%f\\n'
+elif [ -f "$1" ]; then
+  echo file
+  wc -c < "$1"
+else
+  exit 2
+fi`;
+
+// List a directory or get a file's size, or null if the path doesn't exist.
+// Relative paths resolve against the sandbox's working directory.
+export async function statSandboxPath(sandbox: SandboxInstance, filePath: string): Promise<SandboxPathInfo | null> {
+  const result = await sandbox.runCommand({ cmd: "sh", args: ["-c", STAT_SCRIPT, "sh", filePath] });
+  if (result.exitCode === 2) return null;
+  if (result.exitCode !== 0) {
+    const stderr = await result.stderr();
+    throw new Error(stderr.trim() || `Failed to read ${filePath}`);
+  }
+
+  const [kind, ...lines] = (await result.stdout()).split("\n");
+  if (kind === "file") {
+    return { type: "file", path: filePath, size: Number(lines[0]?.trim()) || 0 };
+  }
+
+  const entries: FileEntry[] = [];
+  for (const line of lines) {
+    const [type, size, ...name] = line.split("\t");
+    if (!name.length) continue;
+    entries.push({
+      name: name.join("\t"),
+      path: path.posix.join(filePath, name.join("\t")),
+      type: type === "d" ? "directory" : "file",
+      size: Number(size) || 0,
+    });
+  }
+  entries.sort((a, b) =>
+    a.type === b.type ? a.name.localeCompare(b.name) : a.type === "directory" ? -1 : 1
+  );
+  return { type: "directory", path: filePath, entries };
+}
+
+export async function readSandboxFile(sandbox: SandboxInstance, filePath: string): Promise<Buffer | null> {
+  const stream = await sandbox.readFile({ path: filePath });
+  if (!stream) return null;
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of stream) {
+    const buffer = Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk);
+    size += buffer.length;
+    // The file may have grown since it was checked
+    if (size > MAX_FILE_SIZE_BYTES) {
+      throw new Error(`File is larger than ${MAX_FILE_SIZE_BYTES / 1024} KB`);
+    }
+    chunks.push(buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+// NUL bytes don't appear in text files
+export function isBinaryContent(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
@@ -0,0 +1,26 @@
+import { SandboxProvider } from "./types";
+import { vercelSandboxProvider } from "./vercel-provider";
+import { localSandboxProvider } from "./local-provider";
+import { dockerSandboxProvider } from "./docker-provider";
+
+export * from "./types";
+
+export const SANDBOX_PROVIDERS: Record<string, SandboxProvider> = {
+  vercel: vercelSandboxProvider,
+  local: localSandboxProvider,
+  docker: dockerSandboxProvider,
+};
+
+export const DEFAULT_SANDBOX_PROVIDER = "vercel";
+
+// Pick the sandbox backend from the SANDBOX_PROVIDER env var (defaults to Vercel Sandbox)
+export function getSandboxProvider(): SandboxProvider {
+  const name = process.env.SANDBOX_PROVIDER || DEFAULT_SANDBOX_PROVIDER;
+  const provider = SANDBOX_PROVIDERS[name];
+  if (!provider) {
+    throw new Error(
+      `Unknown sandbox provider "${name}". Expected one of: ${Object.keys(SANDBOX_PROVIDERS).join(", ")}`
+    );
+  }
+  return provider;
+}
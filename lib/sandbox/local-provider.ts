@@ -0,0 +1,250 @@
+import { ChildProcess } from "child_process";
+import { randomUUID } from "crypto";
+import { createReadStream, promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import {
+  CommandResult,
+  CreateSandboxOptions,
+  RunCommandParams,
+  SandboxFile,
+  SandboxInstance,
+  SandboxCommand,
+  SandboxPort,
+  SandboxProvider,
+} from "./types";
+import { DETACHED_LOG_LIMIT, killProcessGroup, spawnDetached, toCommandResult } from "./spawn";
+
+interface LocalSandboxMetadata {
+  sandboxId: string;
+  createdAt: string;
+  timeoutMs: number;
+  runtime: string;
+  vcpus: number;
+  ports?: number[];
+}
+
+// Route handlers are bundled separately, so process and timer tracking lives on
+// globalThis to be shared by every route running in this server process.
+// Background commands stay listed after they exit, so their output and exit code
+// can still be read, until the sandbox stops.
+interface RunningCommand {
+  child: ChildProcess;
+  command: SandboxCommand;
+  finished: boolean;
+}
+
+const globalState = globalThis as typeof globalThis & {
+  __localSandboxProcesses?: Map<string, Map<string, RunningCommand>>;
+  __localSandboxTimers?: Map<string, NodeJS.Timeout>;
+};
+const runningProcesses = (globalState.__localSandboxProcesses ??= new Map());
+const expiryTimers = (globalState.__localSandboxTimers ??= new Map());
+
+// Host variables commands inherit; anything else, e.g. the server's own secrets, stays out of the sandbox
+const INHERITED_ENV = ["PATH", "LANG", "TERM"];
+
+function getSandboxesRoot(): string {
+  return process.env.LOCAL_SANDBOX_ROOT || path.join(os.tmpdir(), "cli-on-the-cloud-sandboxes");
+}
+
+class LocalSandboxInstance implements SandboxInstance {
+  readonly root: string;
+  readonly home: string;
+  readonly workspace: string;
+
+  constructor(readonly sandboxId: string) {
+    this.root = path.join(getSandboxesRoot(), sandboxId);
+    this.home = path.join(this.root, "home");
+    this.workspace = path.join(this.root, "workspace");
+  }
+
+  // Resolve a sandbox path against the workspace, refusing anything that escapes the sandbox root
+  resolvePath(filePath: string, cwd?: string): string {
+    const base = cwd ? this.resolvePath(cwd) : this.workspace;
+    const resolved = path.resolve(base, filePath);
+    if (resolved !== this.root && !resolved.startsWith(this.root + path.sep)) {
+      throw new Error(`Path is outside the sandbox: ${filePath}`);
+    }
+    return resolved;
+  }
+
+  private buildEnv(extraEnv?: Record<string, string>): NodeJS.ProcessEnv {
+    const npmPrefix = path.join(this.home, ".npm-global");
+    const inherited: NodeJS.ProcessEnv = { ...process.env };
+    for (const key of Object.keys(inherited)) {
+      if (!INHERITED_ENV.includes(key)) delete inherited[key];
+    }
+    return {
+      ...inherited,
+      HOME: this.home,
+      // Keep global npm installs (e.g. AI tool installation) inside the sandbox
+      npm_config_prefix: npmPrefix,
+      PATH: [
+        path.join(npmPrefix, "bin"),
+        path.join(this.home, ".local", "bin"),
+        process.env.PATH,
+      ].join(path.delimiter),
+      ...extraEnv,
+    };
+  }
+
+  async runCommand(params: RunCommandParams): Promise<CommandResult> {
+    const command = this.startCommand(params, false);
+    return command.wait();
+  }
+
+  async runDetachedCommand(params: RunCommandParams): Promise<SandboxCommand> {
+    return this.startCommand(params, true);
+  }
+
+  // Commands run to completion are dropped as soon as they exit; background ones are kept
+  // with the tail of their output
+  private startCommand(params: RunCommandParams, background: boolean): SandboxCommand {
+    // sudo is ignored: local sandboxes run every command as the server's user
+    const cwd = params.cwd ? this.resolvePath(params.cwd) : this.workspace;
+
+    const cmdId = `cmd_${randomUUID()}`;
+    const processes = runningProcesses.get(this.sandboxId) ?? new Map<string, RunningCommand>();
+    runningProcesses.set(this.sandboxId, processes);
+
+    const detached = spawnDetached(params.cmd, params.args ?? [], {
+      cwd,
+      env: this.buildEnv(params.env),
+      processGroup: true,
+      logLimit: background ? DETACHED_LOG_LIMIT : undefined,
+    });
+    const running: RunningCommand = {
+      child: detached.child,
+      finished: false,
+      command: {
+        cmdId,
+        logs: detached.logs,
+        wait: async () => toCommandResult(await detached.wait()),
+        kill: async () => {
+          // The group's id may have been reused once the command exited
+          if (!running.finished) killProcessGroup(detached.child, "SIGTERM");
+        },
+      },
+    };
+
+    processes.set(cmdId, running);
+    detached.wait().then(() => {
+      running.finished = true;
+      if (!background) processes.delete(cmdId);
+    });
+    return running.command;
+  }
+
+  async getCommand(cmdId: string): Promise<SandboxCommand> {
+    const running = runningProcesses.get(this.sandboxId)?.get(cmdId);
+    if (!running) {
+      throw new Error(`Command ${cmdId} not found`);
+    }
+    return running.command;
+  }
+
+  async killCommand(cmdId: string): Promise<void> {
+    await runningProcesses.get(this.sandboxId)?.get(cmdId)?.command.kill();
+  }
+
+  async writeFiles(files: SandboxFile[]): Promise<void> {
+    for (const file of files) {
+      const target = this.resolvePath(file.path);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.writeFile(target, file.content);
+    }
+  }
+
+  async readFile(file: { path: string; cwd?: string }): Promise<NodeJS.ReadableStream | null> {
+    const target = this.resolvePath(file.path, file.cwd);
+    try {
+      const stat = await fs.stat(target);
+      if (!stat.isFile()) return null;
+    } catch {
+      return null;
+    }
+    return createReadStream(target);
+  }
+
+  // Processes listen on the host directly, so exposed ports are served from localhost
+  async getPorts(): Promise<SandboxPort[]> {
+    const metadata: LocalSandboxMetadata = JSON.parse(
+      await fs.readFile(path.join(this.root, "sandbox.json"), "utf8")
+    );
+    return (metadata.ports ?? []).map((port) => ({ port, url: `http://localhost:${port}` }));
+  }
+
+  async stop(): Promise<void> {
+    const timer = expiryTimers.get(this.sandboxId);
+    if (timer) {
+      clearTimeout(timer);
+      expiryTimers.delete(this.sandboxId);
+    }
+
+    for (const { child, finished } of runningProcesses.get(this.sandboxId)?.values() ?? []) {
+      if (!finished) killProcessGroup(child, "SIGKILL");
+    }
+    runningProcesses.delete(this.sandboxId);
+
+    await fs.rm(this.root, { recursive: true, force: true });
+  }
+}
+
+function scheduleExpiry(sandbox: LocalSandboxInstance, delayMs: number) {
+  const timer = setTimeout(() => {
+    sandbox.stop().catch((error) => {
+      console.error(`Failed to stop expired local sandbox ${sandbox.sandboxId}:`, error);
+    });
+  }, Math.max(0, delayMs));
+  timer.unref();
+  expiryTimers.set(sandbox.sandboxId, timer);
+}
+
+export const localSandboxProvider: SandboxProvider = {
+  name: "local",
+  displayName: "Local Sandbox",
+  create: async (options: CreateSandboxOptions) => {
+    const sandbox = new LocalSandboxInstance(`local_${randomUUID()}`);
+    await fs.mkdir(sandbox.home, { recursive: true });
+    await fs.mkdir(sandbox.workspace, { recursive: true });
+
+    const metadata: LocalSandboxMetadata = {
+      sandboxId: sandbox.sandboxId,
+      createdAt: new Date().toISOString(),
+      timeoutMs: options.timeout,
+      runtime: options.runtime,
+      vcpus: options.resources.vcpus,
+      ports: options.ports,
+    };
+    await fs.writeFile(path.join(sandbox.root, "sandbox.json"), JSON.stringify(metadata, null, 2));
+
+    scheduleExpiry(sandbox, options.timeout);
+    return sandbox;
+  },
+  get: async (sandboxId: string) => {
+    if (!/^local_[\w-]+$/.test(sandboxId)) {
+      throw new Error(`Invalid local sandbox ID: ${sandboxId}`);
+    }
+
+    const sandbox = new LocalSandboxInstance(sandboxId);
+    let metadata: LocalSandboxMetadata;
+    try {
+      metadata = JSON.parse(await fs.readFile(path.join(sandbox.root, "sandbox.json"), "utf8"));
+    } catch {
+      throw new Error(`Sandbox ${sandboxId} not found`);
+    }
+
+    const expiresAt = new Date(metadata.createdAt).getTime() + metadata.timeoutMs;
+    if (Date.now() >= expiresAt) {
+      await sandbox.stop();
+      throw new Error(`Sandbox ${sandboxId} has expired`);
+    }
+
+    // The server may have restarted since creation, so re-arm the expiry timer if needed
+    if (!expiryTimers.has(sandboxId)) {
+      scheduleExpiry(sandbox, expiresAt - Date.now());
+    }
+    return sandbox;
+  },
+};
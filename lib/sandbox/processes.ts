@@ -0,0 +1,99 @@
+import { randomUUID } from "crypto";
+import { SandboxInstance } from "./types";
+
+// Background processes (e.g. dev servers) are recorded in the sandbox, so any request
+// can list them. Each runs in its own process group under a small wrapper, so killing
+// the command also stops everything it started, and the wrapper records the exit code.
+const PROCESS_ROOT = "$HOME/.cli-on-the-cloud/processes";
+
+const PROCESS_WRAPPER = `d="${PROCESS_ROOT}/$1"
+set -m
+bash -lc "$2" &
+pid=$!
+set +m
+trap 'kill -TERM -- -$pid 2>/dev/null' TERM INT
+wait $pid; status=$?
+# wait returns early when a trapped signal arrives, so wait for the real exit status
+while kill -0 $pid 2>/dev/null; do wait $pid; status=$?; done
+echo $status > "$d/exit"
+exit $status`;
+
+export interface BackgroundProcess {
+  cmdId: string;
+  command: string;
+  startedAt: string;
+  // null while the process is still running
+  exitCode: number | null;
+}
+
+async function runProcessScript(sandbox: SandboxInstance, script: string, args: string[]) {
+  const result = await sandbox.runCommand({ cmd: "sh", args: ["-c", script, "sh", ...args] });
+  if (result.exitCode !== 0) {
+    const stderr = await result.stderr();
+    throw new Error(stderr.trim() || `Process command failed with exit code ${result.exitCode}`);
+  }
+  return result.stdout();
+}
+
+export async function startBackgroundProcess(
+  sandbox: SandboxInstance,
+  command: string
+): Promise<BackgroundProcess> {
+  const processId = `proc_${randomUUID()}`;
+  await runProcessScript(sandbox, `mkdir -p "${PROCESS_ROOT}/$1"`, [processId]);
+
+  const detached = await sandbox.runDetachedCommand({
+    cmd: "bash",
+    args: ["-c", PROCESS_WRAPPER, "bash", processId, command],
+  });
+
+  const backgroundProcess: BackgroundProcess = {
+    cmdId: detached.cmdId,
+    command,
+    startedAt: new Date().toISOString(),
+    exitCode: null,
+  };
+  await runProcessScript(
+    sandbox,
+    `printf '%s' "$2" > "${PROCESS_ROOT}/$1/process.json"`,
+    [processId, JSON.stringify({ cmdId: detached.cmdId, command, startedAt: backgroundProcess.startedAt })]
+  );
+  return backgroundProcess;
+}
+
+export async function listBackgroundProcesses(sandbox: SandboxInstance): Promise<BackgroundProcess[]> {
+  // One line per process: its JSON record, a tab, and the exit code once it has exited
+  const output = await runProcessScript(
+    sandbox,
+    `for d in "${PROCESS_ROOT}"/*/; do
+  [ -f "$d/process.json" ] || continue
+  cat "$d/process.json"; printf '\\t'; cat "$d/exit" 2>/dev/null; printf '\\n'
+done`,
+    []
+  );
+
+  const processes: BackgroundProcess[] = [];
+  for (const line of output.split("\n")) {
+    const [record, exitCode] = line.split("\t");
+    if (!record) continue;
+    try {
+      const { cmdId, command, startedAt } = JSON.parse(record);
+      processes.push({
+        cmdId,
+        command,
+        startedAt,
+        exitCode: exitCode?.trim() ? Number(exitCode) : null,
+      });
+    } catch (error) {
+      console.warn("Skipping unreadable background process record:", record, error);
+    }
+  }
+  return processes.sort((a, b) => a.startedAt.localeCompare(b.startedAt));
+}
+
+// Whether the command was started as a background process, rather than being the agent, a terminal
+// or another command of the sandbox
+export async function isBackgroundProcess(sandbox: SandboxInstance, cmdId: string): Promise<boolean> {
+  const processes = await listBackgroundProcesses(sandbox);
+  return processes.some((backgroundProcess) => backgroundProcess.cmdId === cmdId);
+}
@@ -0,0 +1,130 @@
+import { randomUUID } from "crypto";
+import { SandboxInstance } from "./types";
+
+// Interactive shells run under util-linux `script`, which allocates the pseudo-terminal.
+// Input is written to a FIFO in the sandbox, so every provider that can run commands
+// can drive a terminal without a stdin stream.
+const PTY_ROOT = "$HOME/.cli-on-the-cloud/pty";
+const PTY_DIR = `"${PTY_ROOT}/$1"`;
+const MAX_TERMINAL_SIZE = 1000;
+
+export interface PtySize {
+  cols: number;
+  rows: number;
+}
+
+export interface PtySession {
+  ptyId: string;
+  // The `script` process, whose output is the terminal output
+  cmdId: string;
+}
+
+export function isValidPtyId(ptyId: unknown): ptyId is string {
+  return typeof ptyId === "string" && /^pty_[0-9a-f-]+$/.test(ptyId);
+}
+
+export function parsePtySize(value: { cols?: unknown; rows?: unknown }): PtySize {
+  const { cols, rows } = value;
+  if (
+    !Number.isInteger(cols) || !Number.isInteger(rows) ||
+    (cols as number) < 1 || (rows as number) < 1 ||
+    (cols as number) > MAX_TERMINAL_SIZE || (rows as number) > MAX_TERMINAL_SIZE
+  ) {
+    throw new Error("Terminal size must be whole numbers of columns and rows");
+  }
+  return { cols: cols as number, rows: rows as number };
+}
+
+async function runPtyScript(sandbox: SandboxInstance, script: string, args: string[]) {
+  const result = await sandbox.runCommand({ cmd: "sh", args: ["-c", script, "sh", ...args] });
+  if (result.exitCode !== 0) {
+    const stderr = await result.stderr();
+    throw new Error(stderr.trim() || `Terminal command failed with exit code ${result.exitCode}`);
+  }
+}
+
+export async function startPty(sandbox: SandboxInstance, size: PtySize): Promise<PtySession> {
+  const ptyId = `pty_${randomUUID()}`;
+
+  await runPtyScript(
+    sandbox,
+    `command -v script >/dev/null || { echo "Interactive terminals need util-linux script in the sandbox image" >&2; exit 127; }
+d=${PTY_DIR} && mkdir -p "$d" && rm -f "$d/in" && mkfifo "$d/in"`,
+    [ptyId]
+  );
+
+  // Opening the FIFO read-write keeps a writer attached, so the shell never sees EOF
+  // between inputs. The shell records its tty for resizing.
+  const command = await sandbox.runDetachedCommand({
+    cmd: "sh",
+    args: [
+      "-c",
+      `d=${PTY_DIR}; exec 3<>"$d/in"; exec script -qfc "stty cols $2 rows $3; tty > '$d/tty'; exec bash -i" /dev/null <&3`,
+      "sh",
+      ptyId,
+      String(size.cols),
+      String(size.rows),
+    ],
+    env: { TERM: "xterm-256color" },
+  });
+  // Recorded so requests naming both IDs can be checked to belong together
+  await runPtyScript(sandbox, `printf '%s' "$2" > ${PTY_DIR}/cmd`, [ptyId, command.cmdId]);
+
+  return { ptyId, cmdId: command.cmdId };
+}
+
+// Whether the command is the terminal's `script` process, rather than any other command of the sandbox
+export async function isPtyCommand(sandbox: SandboxInstance, session: PtySession): Promise<boolean> {
+  const result = await sandbox.runCommand({
+    cmd: "sh",
+    args: ["-c", `[ "$(cat ${PTY_DIR}/cmd 2>/dev/null)" = "$2" ]`, "sh", session.ptyId, session.cmdId],
+  });
+  return result.exitCode === 0;
+}
+
+// "not-found" when the command isn't the terminal's process, "exited" once the shell is gone
+export type PtyRequestResult = "ok" | "not-found" | "exited";
+
+// Both scripts take the pty ID and command ID first. Exit code 4 means the terminal doesn't exist
+// or belongs to another command, 5 that its shell has exited.
+const PTY_OWNER_CHECK = `d=${PTY_DIR}; [ "$(cat "$d/cmd" 2>/dev/null)" = "$2" ] || exit 4`;
+
+// Once the shell has exited the FIFO has no reader and a write would block forever, so it is
+// bounded. Checking for the FIFO keeps the redirect from creating a plain file instead.
+const WRITE_SCRIPT = `${PTY_OWNER_CHECK}
+[ -p "$d/in" ] || exit 4
+timeout 2 sh -c 'printf "%s" "$1" > "$2"' sh "$3" "$d/in" || exit 5`;
+
+// Changing the window size signals SIGWINCH to the terminal's foreground programs
+const RESIZE_SCRIPT = `${PTY_OWNER_CHECK}
+[ -f "$d/tty" ] || exit 0
+tty=$(cat "$d/tty")
+[ -c "$tty" ] || exit 5
+timeout 2 stty -F "$tty" cols $3 rows $4 || exit 5`;
+
+async function runPtyRequest(sandbox: SandboxInstance, script: string, args: string[]): Promise<PtyRequestResult> {
+  const result = await sandbox.runCommand({ cmd: "sh", args: ["-c", script, "sh", ...args] });
+  if (result.exitCode === 4) return "not-found";
+  if (result.exitCode === 5) return "exited";
+  if (result.exitCode !== 0) {
+    const stderr = await result.stderr();
+    throw new Error(stderr.trim() || `Terminal command failed with exit code ${result.exitCode}`);
+  }
+  return "ok";
+}
+
+export async function writePty(sandbox: SandboxInstance, session: PtySession, data: string): Promise<PtyRequestResult> {
+  return runPtyRequest(sandbox, WRITE_SCRIPT, [session.ptyId, session.cmdId, data]);
+}
+
+export async function resizePty(sandbox: SandboxInstance, session: PtySession, size: PtySize): Promise<PtyRequestResult> {
+  return runPtyRequest(sandbox, RESIZE_SCRIPT, [session.ptyId, session.cmdId, String(size.cols), String(size.rows)]);
+}
+
+export async function closePty(sandbox: SandboxInstance, session: PtySession): Promise<void> {
+  if (!(await isPtyCommand(sandbox, session))) {
+    throw new Error(`Command ${session.cmdId} is not the process of terminal ${session.ptyId}`);
+  }
+  await sandbox.killCommand(session.cmdId);
+  await runPtyScript(sandbox, `rm -rf ${PTY_DIR}`, [session.ptyId]);
+}
@@ -0,0 +1,35 @@
+import { SandboxInstance } from "./types";
+
+// Agent turns and terminal commands are recorded in the sandbox by the routes that start them,
+// so the routes that cancel them can't be pointed at the sandbox's other commands, e.g. an
+// interactive terminal or a dev server
+const RECORDED_COMMAND_ROOT = "$HOME/.cli-on-the-cloud/commands";
+
+export type RecordedCommandKind = "agent" | "terminal";
+
+function isValidCommandId(cmdId: string): boolean {
+  return /^[\w-]+$/.test(cmdId);
+}
+
+export async function recordCommand(sandbox: SandboxInstance, kind: RecordedCommandKind, cmdId: string): Promise<void> {
+  if (!isValidCommandId(cmdId)) {
+    throw new Error(`Invalid command ID: ${cmdId}`);
+  }
+  const result = await sandbox.runCommand({
+    cmd: "sh",
+    args: ["-c", `mkdir -p "${RECORDED_COMMAND_ROOT}/$1" && touch "${RECORDED_COMMAND_ROOT}/$1/$2"`, "sh", kind, cmdId],
+  });
+  if (result.exitCode !== 0) {
+    const stderr = await result.stderr();
+    throw new Error(stderr.trim() || `Recording the command failed with exit code ${result.exitCode}`);
+  }
+}
+
+export async function isRecordedCommand(sandbox: SandboxInstance, kind: RecordedCommandKind, cmdId: string): Promise<boolean> {
+  if (!isValidCommandId(cmdId)) return false;
+  const result = await sandbox.runCommand({
+    cmd: "sh",
+    args: ["-c", `[ -f "${RECORDED_COMMAND_ROOT}/$1/$2" ]`, "sh", kind, cmdId],
+  });
+  return result.exitCode === 0;
+}
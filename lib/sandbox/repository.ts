@@ -0,0 +1,103 @@
+import { RepositoryInfo, RepositoryOptions } from "../repository";
+import { UPLOAD_DIR } from "../uploads";
+import { SESSION_STATE_STAGING_DIR } from "./session-state";
+import { SandboxInstance } from "./types";
+
+// git clone needs an empty target, so clone next to the working directory and move the checkout in
+const CLONE_SCRIPT = `tmp="$HOME/.cli-on-the-cloud/clone"
+rm -rf "$tmp"
+if [ -n "$2" ]; then
+  git clone -q --depth 1 --branch "$2" -- "$1" "$tmp" || exit 1
+else
+  git clone -q --depth 1 -- "$1" "$tmp" || exit 1
+fi
+cp -a "$tmp/." . && rm -rf "$tmp" || exit 1
+printf '%s\\n%s' "$(git rev-parse --abbrev-ref HEAD)" "$(git rev-parse HEAD)"`;
+
+// Commits the working directory as one commit on top of the cloned base branch, without moving
+// HEAD, so later pull requests start from the base again. Exit code 3 when there is nothing to
+// commit. A retry after the push went through finds the branch already holding the same files
+// and reuses its commit. Commits as the sandbox unless git already has an identity.
+const COMMIT_AND_PUSH_SCRIPT = `base="$1" branch="$2" message="$3"; shift 3
+git rev-parse --is-inside-work-tree >/dev/null 2>&1 || { echo "The working directory is not a Git repository" >&2; exit 1; }
+parent=$(git rev-parse -q --verify "refs/remotes/origin/$base^{commit}") || { echo "Branch $base was not cloned" >&2; exit 1; }
+for path; do
+  shift
+  set -- "$@" ":(exclude)$path"
+done
+git add -A -- . "$@" || exit 1
+tree=$(git write-tree); status=$?
+git reset -q
+[ $status -eq 0 ] || exit 1
+[ "$tree" = "$(git rev-parse "$parent^{tree}")" ] && exit 3
+if git fetch -q --depth 1 origin "refs/heads/$branch" 2>/dev/null && [ "$(git rev-parse FETCH_HEAD^{tree})" = "$tree" ]; then
+  git rev-parse FETCH_HEAD
+  exit 0
+fi
+git config user.name >/dev/null || git config user.name "CLI on the Cloud"
+git config user.email >/dev/null || git config user.email "sandbox@cli-on-the-cloud.local"
+commit=$(git commit-tree "$tree" -p "$parent" -m "$message") || exit 1
+git push -q origin "$commit:refs/heads/$branch" || exit 1
+echo "$commit"`;
+
+// Chat uploads and staged session archives live in the working directory but aren't part of the changes
+const UNCOMMITTED_PATHS = [UPLOAD_DIR, SESSION_STATE_STAGING_DIR];
+
+// Credentials go through git's environment config, so they never end up in .git/config
+export function gitAuthEnv(token?: string): Record<string, string> {
+  const env: Record<string, string> = { GIT_TERMINAL_PROMPT: "0" };
+  if (token) {
+    const credentials = Buffer.from(`x-access-token:${token}`).toString("base64");
+    env.GIT_CONFIG_COUNT = "1";
+    env.GIT_CONFIG_KEY_0 = "http.extraHeader";
+    env.GIT_CONFIG_VALUE_0 = `Authorization: Basic ${credentials}`;
+  }
+  return env;
+}
+
+// Check out a repository into the sandbox's working directory
+export async function cloneRepository(
+  sandbox: SandboxInstance,
+  options: RepositoryOptions
+): Promise<Required<RepositoryInfo>> {
+  const result = await sandbox.runCommand({
+    cmd: "sh",
+    args: ["-c", CLONE_SCRIPT, "sh", options.url, options.branch ?? ""],
+    env: gitAuthEnv(options.token),
+  });
+  if (result.exitCode !== 0) {
+    const stderr = await result.stderr();
+    throw new Error(stderr.trim() || `git clone failed with exit code ${result.exitCode}`);
+  }
+
+  const [branch, commit] = (await result.stdout()).split("\n");
+  return { url: options.url, branch, commit };
+}
+
+// The repository commitAndPush pushes to
+export async function getOriginUrl(sandbox: SandboxInstance): Promise<string> {
+  const result = await sandbox.runCommand({ cmd: "git", args: ["remote", "get-url", "origin"] });
+  if (result.exitCode !== 0) {
+    throw new Error("The working directory has no origin remote to push to");
+  }
+  return (await result.stdout()).trim();
+}
+
+// Commit all changes in the working directory on a new branch off the base branch and push it to origin.
+// Returns the commit, or null when there was nothing to commit.
+export async function commitAndPush(
+  sandbox: SandboxInstance,
+  options: { baseBranch: string; branch: string; message: string; token?: string }
+): Promise<string | null> {
+  const result = await sandbox.runCommand({
+    cmd: "sh",
+    args: ["-c", COMMIT_AND_PUSH_SCRIPT, "sh", options.baseBranch, options.branch, options.message, ...UNCOMMITTED_PATHS],
+    env: gitAuthEnv(options.token),
+  });
+  if (result.exitCode === 3) return null;
+  if (result.exitCode !== 0) {
+    const stderr = await result.stderr();
+    throw new Error(stderr.trim() || `git push failed with exit code ${result.exitCode}`);
+  }
+  return (await result.stdout()).trim();
+}
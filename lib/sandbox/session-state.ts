@@ -0,0 +1,91 @@
+import { randomUUID } from "crypto";
+import { SandboxInstance } from "./types";
+
+// Archives larger than this would crowd out everything else in browser storage
+export const MAX_SESSION_STATE_BYTES = 2 * 1024 * 1024;
+
+// Archives are staged in the working directory, which the sandbox's default user can read back
+// even when the CLI runs as root and keeps its sessions in root's home
+export const SESSION_STATE_STAGING_DIR = ".cli-on-the-cloud";
+
+// Exit code 3 when none of the directories exist, i.e. the CLI has no sessions yet
+const EXPORT_SCRIPT = `out="$PWD/$1"; shift
+cd "$HOME" || exit 1
+for dir; do
+  shift
+  [ -d "$dir" ] && set -- "$@" "$dir"
+done
+[ $# -gt 0 ] || exit 3
+mkdir -p "$(dirname "$out")" || exit 1
+tar -czf "$out" -- "$@"
+[ $? -le 1 ] || exit 1
+chmod a+r "$out"`;
+
+const IMPORT_SCRIPT = `tar -xzf "$1" -C "$HOME"; status=$?
+rm -f "$1"
+exit $status`;
+
+async function readStream(stream: NodeJS.ReadableStream): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Where the CLI keeps its sessions: its home-relative directories, and whether it runs as root
+export interface SessionStateLocation {
+  stateDirs: string[];
+  sudo: boolean;
+}
+
+// Pack the CLI's session directories as a base64 tar.gz of paths relative to its $HOME.
+// Returns null when there is nothing to save.
+export async function exportSessionState(
+  sandbox: SandboxInstance,
+  location: SessionStateLocation
+): Promise<string | null> {
+  if (location.stateDirs.length === 0) return null;
+
+  const archivePath = `${SESSION_STATE_STAGING_DIR}/session-state_${randomUUID()}.tar.gz`;
+  const result = await sandbox.runCommand({
+    cmd: "sh",
+    args: ["-c", EXPORT_SCRIPT, "sh", archivePath, ...location.stateDirs],
+    sudo: location.sudo,
+  });
+  if (result.exitCode === 3) return null;
+  if (result.exitCode !== 0) {
+    const stderr = await result.stderr();
+    throw new Error(stderr.trim() || `Exporting session state failed with exit code ${result.exitCode}`);
+  }
+
+  try {
+    const stream = await sandbox.readFile({ path: archivePath });
+    if (!stream) {
+      throw new Error("Session state archive was not created");
+    }
+    const archive = await readStream(stream);
+    if (archive.length > MAX_SESSION_STATE_BYTES) {
+      throw new Error(`Session state is ${Math.ceil(archive.length / 1024)} KB, over the ${MAX_SESSION_STATE_BYTES / 1024} KB limit`);
+    }
+    return archive.toString("base64");
+  } finally {
+    await sandbox.runCommand({ cmd: "rm", args: ["-f", archivePath], sudo: location.sudo });
+  }
+}
+
+// Unpack state saved by exportSessionState into the home directory of the user the CLI runs as
+export async function importSessionState(sandbox: SandboxInstance, state: string, sudo: boolean): Promise<void> {
+  const archivePath = `${SESSION_STATE_STAGING_DIR}/session-state_${randomUUID()}.tar.gz`;
+  await sandbox.writeFiles([{ path: archivePath, content: Buffer.from(state, "base64") }]);
+
+  const result = await sandbox.runCommand({
+    cmd: "sh",
+    args: ["-c", IMPORT_SCRIPT, "sh", archivePath],
+    sudo,
+  });
+  if (result.exitCode !== 0) {
+    const stderr = await result.stderr();
+    throw new Error(stderr.trim() || `Restoring session state failed with exit code ${result.exitCode}`);
+  }
+}
@@ -0,0 +1,31 @@
+import { RunCommandParams } from "./types";
+
+// Terminal commands each run in a fresh login shell. The working directory and exported
+// environment are saved in the sandbox after every command and restored before the
+// next one, so `cd` and `export` carry over between requests.
+const SHELL_STATE_DIR = "$HOME/.cli-on-the-cloud/terminal";
+
+// Variables that describe the shell itself rather than anything the user exported
+const TRANSIENT_VARIABLES = ["PWD", "OLDPWD", "SHLVL", "_"];
+
+const SHELL_WRAPPER = `state="${SHELL_STATE_DIR}"
+mkdir -p "$state"
+start="$PWD"
+[ -f "$state/env" ] && . "$state/env"
+if [ -f "$state/cwd" ]; then cd "$(cat "$state/cwd")" 2>/dev/null || cd "$start"; fi
+save_state() {
+  status=$?
+  pwd > "$state/cwd"
+  export -p | grep -vE '^declare -x (${TRANSIENT_VARIABLES.join("|")})(=|$)' > "$state/env"
+  exit $status
+}
+trap save_state EXIT
+eval "$1"`;
+
+// Run a command line through bash, so quoting, pipes, redirects and && behave as typed
+export function buildShellCommand(command: string): RunCommandParams {
+  return {
+    cmd: "bash",
+    args: ["-lc", SHELL_WRAPPER, "bash", command],
+  };
+}
@@ -0,0 +1,172 @@
+import { spawn, ChildProcess } from "child_process";
+import os from "os";
+import { StringDecoder } from "string_decoder";
+import { CommandLogLine, CommandResult } from "./types";
+
+export interface SpawnedProcessResult {
+  exitCode: number;
+  stdout: Buffer;
+  stderr: string;
+}
+
+export interface SpawnProcessOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  input?: Buffer;
+  // Run in a new process group, which killProcessGroup can signal as a whole
+  processGroup?: boolean;
+  // Keep only about this many characters of each stream, e.g. for a dev server that runs
+  // for the sandbox's lifetime. The logs and the result then start partway through.
+  logLimit?: number;
+}
+
+// The tail of a background command's output kept for replays
+export const DETACHED_LOG_LIMIT = 1024 * 1024;
+
+export interface DetachedProcess {
+  child: ChildProcess;
+  // Replays output produced so far, then follows the process until it exits
+  logs: () => AsyncIterable<CommandLogLine>;
+  wait: () => Promise<SpawnedProcessResult>;
+}
+
+// Start a host process in the background, buffering its output so logs can be read while it runs
+export function spawnDetached(
+  cmd: string,
+  args: string[],
+  options: SpawnProcessOptions = {}
+): DetachedProcess {
+  const lines: CommandLogLine[] = [];
+  // Index of lines[0] among all lines produced, once older ones have been dropped
+  let firstLine = 0;
+  let lineLength = 0;
+  const stdout: Buffer[] = [];
+  let stdoutLength = 0;
+  let stderr = "";
+  const { logLimit } = options;
+
+  const addLine = (line: CommandLogLine) => {
+    lines.push(line);
+    lineLength += line.data.length;
+    while (logLimit !== undefined && lineLength > logLimit && lines.length > 1) {
+      lineLength -= lines.shift()!.data.length;
+      firstLine++;
+    }
+  };
+  let finished = false;
+  let listeners: Array<() => void> = [];
+
+  const notify = () => {
+    const pending = listeners;
+    listeners = [];
+    pending.forEach((listener) => listener());
+  };
+
+  const child = spawn(cmd, args, {
+    cwd: options.cwd,
+    env: options.env,
+    detached: options.processGroup,
+  });
+
+  const done = new Promise<SpawnedProcessResult>((resolve) => {
+    let inputError: string | null = null;
+    const finish = (exitCode: number) => {
+      if (finished) return;
+      finished = true;
+      notify();
+      // A process that exits before reading all of its input didn't get what it was asked to handle
+      resolve({ exitCode: inputError && exitCode === 0 ? 1 : exitCode, stdout: Buffer.concat(stdout), stderr });
+    };
+
+    // Decoders hold back multi-byte characters split across chunks
+    const stdoutDecoder = new StringDecoder("utf8");
+    const stderrDecoder = new StringDecoder("utf8");
+    child.stdout?.on("data", (chunk: Buffer) => {
+      stdout.push(chunk);
+      stdoutLength += chunk.length;
+      while (logLimit !== undefined && stdoutLength > logLimit && stdout.length > 1) {
+        stdoutLength -= stdout.shift()!.length;
+      }
+      addLine({ stream: "stdout", data: stdoutDecoder.write(chunk) });
+      notify();
+    });
+    child.stderr?.on("data", (chunk: Buffer) => {
+      const data = stderrDecoder.write(chunk);
+      stderr += data;
+      if (logLimit !== undefined && stderr.length > logLimit) stderr = stderr.slice(-logLimit);
+      addLine({ stream: "stderr", data });
+      notify();
+    });
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      stderr += error.message;
+      addLine({ stream: "stderr", data: error.message });
+      // Mirror the shell's "command not found" exit code
+      finish(error.code === "ENOENT" ? 127 : 1);
+    });
+    // Writing to a process that already exited fails with EPIPE, which would otherwise be thrown
+    child.stdin?.on("error", (error: NodeJS.ErrnoException) => {
+      if (inputError || !options.input) return;
+      inputError = `Failed to write input: ${error.message}`;
+      stderr += inputError;
+      addLine({ stream: "stderr", data: inputError });
+      notify();
+    });
+    child.on("close", (code, signal) => {
+      finish(code ?? (signal ? 128 + (os.constants.signals[signal] ?? 0) : 1));
+    });
+  });
+
+  if (options.input) {
+    child.stdin?.end(options.input);
+  } else {
+    child.stdin?.end();
+  }
+
+  return {
+    child,
+    logs: async function* () {
+      let index = 0;
+      while (true) {
+        // Skip lines dropped while this reader was behind
+        index = Math.max(index, firstLine);
+        if (index < firstLine + lines.length) {
+          yield lines[index - firstLine];
+          index++;
+          continue;
+        }
+        if (finished) return;
+        await new Promise<void>((resolve) => listeners.push(resolve));
+      }
+    },
+    wait: () => done,
+  };
+}
+
+// Signal a process started with `processGroup` and everything it started, e.g. the command
+// run by a `bash -lc` wrapper, which would otherwise keep running and hold the output pipes open
+export function killProcessGroup(child: ChildProcess, signal: NodeJS.Signals): void {
+  if (child.pid === undefined) return;
+  try {
+    process.kill(-child.pid, signal);
+  } catch {
+    // The whole group has already exited
+  }
+}
+
+// Run a host process to completion, collecting its output instead of rejecting on failure
+export function spawnProcess(
+  cmd: string,
+  args: string[],
+  options: SpawnProcessOptions = {}
+): Promise<SpawnedProcessResult> {
+  return spawnDetached(cmd, args, options).wait();
+}
+
+export function toCommandResult(result: SpawnedProcessResult): CommandResult {
+  const stdout = result.stdout.toString();
+  return {
+    exitCode: result.exitCode,
+    stdout: async () => stdout,
+    stderr: async () => result.stderr,
+  };
+}
@@ -0,0 +1,66 @@
+export interface CreateSandboxOptions {
+  resources: { vcpus: number };
+  runtime: string;
+  timeout: number;
+  // Ports to expose publicly, e.g. for a dev server's preview
+  ports?: number[];
+}
+
+export interface RunCommandParams {
+  cmd: string;
+  args?: string[];
+  cwd?: string;
+  env?: Record<string, string>;
+  sudo?: boolean;
+}
+
+export interface CommandResult {
+  exitCode: number;
+  stdout: () => Promise<string>;
+  stderr: () => Promise<string>;
+}
+
+export interface CommandLogLine {
+  stream: "stdout" | "stderr";
+  data: string;
+}
+
+// A command started in the background, whose output can be read while it runs
+export interface SandboxCommand {
+  cmdId: string;
+  logs: () => AsyncIterable<CommandLogLine>;
+  wait: () => Promise<CommandResult>;
+  kill: () => Promise<void>;
+}
+
+// Public URL of a port exposed when the sandbox was created
+export interface SandboxPort {
+  port: number;
+  url: string;
+}
+
+export interface SandboxFile {
+  path: string;
+  content: Buffer;
+}
+
+export interface SandboxInstance {
+  sandboxId: string;
+  runCommand: (params: RunCommandParams) => Promise<CommandResult>;
+  runDetachedCommand: (params: RunCommandParams) => Promise<SandboxCommand>;
+  // Reattach to a running detached command, e.g. to follow its output from another request
+  getCommand: (cmdId: string) => Promise<SandboxCommand>;
+  // Stop a detached command started by an earlier request; a no-op once it has exited
+  killCommand: (cmdId: string) => Promise<void>;
+  writeFiles: (files: SandboxFile[]) => Promise<void>;
+  readFile: (file: { path: string; cwd?: string }) => Promise<NodeJS.ReadableStream | null>;
+  getPorts: () => Promise<SandboxPort[]>;
+  stop: () => Promise<void>;
+}
+
+export interface SandboxProvider {
+  name: string;
+  displayName: string;
+  create: (options: CreateSandboxOptions) => Promise<SandboxInstance>;
+  get: (sandboxId: string) => Promise<SandboxInstance>;
+}
@@ -0,0 +1,84 @@
+import { Command, Sandbox } from "@vercel/sandbox";
+import {
+  CommandResult,
+  CreateSandboxOptions,
+  RunCommandParams,
+  SandboxFile,
+  SandboxCommand,
+  SandboxInstance,
+  SandboxPort,
+  SandboxProvider,
+} from "./types";
+
+function toSandboxCommand(command: Command): SandboxCommand {
+  return {
+    cmdId: command.cmdId,
+    logs: () => command.logs(),
+    wait: () => command.wait(),
+    kill: () => command.kill(),
+  };
+}
+
+class VercelSandboxInstance implements SandboxInstance {
+  constructor(private readonly sandbox: Sandbox) {}
+
+  get sandboxId(): string {
+    return this.sandbox.sandboxId;
+  }
+
+  async runCommand(params: RunCommandParams): Promise<CommandResult> {
+    return this.sandbox.runCommand(params);
+  }
+
+  async runDetachedCommand(params: RunCommandParams): Promise<SandboxCommand> {
+    return toSandboxCommand(await this.sandbox.runCommand({ ...params, detached: true }));
+  }
+
+  async getCommand(cmdId: string): Promise<SandboxCommand> {
+    return toSandboxCommand(await this.sandbox.getCommand(cmdId));
+  }
+
+  async killCommand(cmdId: string): Promise<void> {
+    const command = await this.sandbox.getCommand(cmdId);
+    if (command.exitCode === null) {
+      await command.kill();
+    }
+  }
+
+  async writeFiles(files: SandboxFile[]): Promise<void> {
+    await this.sandbox.writeFiles(files);
+  }
+
+  async readFile(file: { path: string; cwd?: string }): Promise<NodeJS.ReadableStream | null> {
+    return this.sandbox.readFile(file);
+  }
+
+  async getPorts(): Promise<SandboxPort[]> {
+    return this.sandbox.routes.map((route) => ({
+      port: route.port,
+      url: this.sandbox.domain(route.port),
+    }));
+  }
+
+  async stop(): Promise<void> {
+    await this.sandbox.stop();
+  }
+}
+
+export const vercelSandboxProvider: SandboxProvider = {
+  name: "vercel",
+  displayName: "Vercel Sandbox",
+  create: async (options: CreateSandboxOptions) => {
+    const sandbox = await Sandbox.create({
+      resources: options.resources,
+      runtime: options.runtime,
+      timeout: options.timeout,
+      ports: options.ports,
+    });
+    return new VercelSandboxInstance(sandbox);
+  },
+  get: async (sandboxId: string) => {
+    const sandbox = await Sandbox.get({ sandboxId });
+    return new VercelSandboxInstance(sandbox);
+  },
+};
@@ -0,0 +1,35 @@
+import { z } from 'zod';
+
+// Shared by the new-sandbox route, which emits `data-setup-step` events, and the
+// setup progress UI, which applies them to its task list.
+export const setupStepIdSchema = z.enum(['create-sandbox', 'clone-repository', 'restore-session', 'install-tool', 'test-connection']);
+
+export const setupStepStatusSchema = z.enum(['pending', 'in-progress', 'completed', 'failed']);
+
+export const setupStepEventSchema = z.object({
+  stepId: setupStepIdSchema,
+  status: setupStepStatusSchema,
+  message: z.string(),
+  error: z.string().optional(),
+  // Set once a step leaves in-progress
+  durationMs: z.number().nonnegative().optional(),
+});
+
+export type SetupStepId = z.infer<typeof setupStepIdSchema>;
+export type SetupStepStatus = z.infer<typeof setupStepStatusSchema>;
+export type SetupStepEvent = z.infer<typeof setupStepEventSchema>;
+
+export const SETUP_STEP_EVENT_TYPE = 'data-setup-step';
+
+// Returns null for anything that is not a well-formed setup step event
+export function parseSetupStepEvent(chunk: unknown): SetupStepEvent | null {
+  if (!chunk || typeof chunk !== 'object' || (chunk as { type?: unknown }).type !== SETUP_STEP_EVENT_TYPE) {
+    return null;
+  }
+  const result = setupStepEventSchema.safeParse((chunk as { data?: unknown }).data);
+  if (!result.success) {
+    console.warn('Invalid setup step event:', z.prettifyError(result.error));
+    return null;
+  }
+  return result.data;
+}
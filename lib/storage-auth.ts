@@ -0,0 +1,23 @@
+// Server storage is shared by everyone who can reach the deployment, so it sits behind HTTP basic
+// auth with the credentials in STORAGE_BASIC_AUTH ("user:password"). Kept free of Node APIs so
+// the middleware can use it too.
+export const STORAGE_AUTH_REALM = "cli-on-the-cloud";
+
+export function getStorageCredentials(): string | null {
+  return process.env.STORAGE_BASIC_AUTH || null;
+}
+
+function toBase64(text: string): string {
+  return btoa(String.fromCharCode(...new TextEncoder().encode(text)));
+}
+
+export function hasStorageCredentials(request: Request, credentials: string): boolean {
+  const expected = `Basic ${toBase64(credentials)}`;
+  const actual = request.headers.get("authorization") ?? "";
+  // Compare every character so the time taken does not give away how much matched
+  let mismatch = actual.length ^ expected.length;
+  for (let i = 0; i < expected.length; i++) {
+    mismatch |= expected.charCodeAt(i) ^ actual.charCodeAt(i);
+  }
+  return mismatch === 0;
+}
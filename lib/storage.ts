@@ -0,0 +1,80 @@
+import path from "path";
+import { mkdirSync } from "fs";
+import Database from "better-sqlite3";
+import { STORAGE_MODE } from "./constants";
+import { getStorageCredentials, hasStorageCredentials } from "./storage-auth";
+
+export const MAX_STORAGE_KEY_LENGTH = 200;
+// Exported session files are up to 2 MB before base64, and transcripts stay well below this
+export const MAX_STORAGE_VALUE_BYTES = 5 * 1024 * 1024;
+
+export interface StoredItem {
+  key: string;
+  value: string;
+}
+
+// Why a request to the storage API may not go ahead, or null when it may
+export function checkStorageRequest(request: Request): { error: string; status: number } | null {
+  if (STORAGE_MODE !== "server") {
+    return { error: "Server storage is disabled", status: 404 };
+  }
+  const credentials = getStorageCredentials();
+  if (!credentials) {
+    return { error: "Set STORAGE_BASIC_AUTH to use server storage", status: 503 };
+  }
+  if (!hasStorageCredentials(request, credentials)) {
+    return { error: "Authentication required", status: 401 };
+  }
+  // Browsers attach saved credentials to cross-site requests too, so only the app's own pages get through
+  const site = request.headers.get("sec-fetch-site");
+  if (site && site !== "same-origin") {
+    return { error: "Cross-site storage requests are not allowed", status: 403 };
+  }
+  return null;
+}
+
+let database: Database.Database | null = null;
+
+// Backs the "server" storage mode with a key-value table shaped like localStorage. Opened on
+// first use, at STORAGE_DB_PATH (defaults to .data/storage.db in the working directory).
+function getDatabase(): Database.Database {
+  if (!database) {
+    const dbPath = process.env.STORAGE_DB_PATH || path.join(process.cwd(), ".data", "storage.db");
+    mkdirSync(path.dirname(dbPath), { recursive: true });
+    database = new Database(dbPath);
+    database.pragma("journal_mode = WAL");
+    database.exec(`CREATE TABLE IF NOT EXISTS storage (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    )`);
+  }
+  return database;
+}
+
+export function getStoredItem(key: string): string | null {
+  const row = getDatabase().prepare("SELECT value FROM storage WHERE key = ?").get(key) as
+    | { value: string }
+    | undefined;
+  return row?.value ?? null;
+}
+
+// Items whose key starts with `prefix`, so collections can keep one item per record
+export function listStoredItems(prefix: string): StoredItem[] {
+  return getDatabase()
+    .prepare("SELECT key, value FROM storage WHERE substr(key, 1, ?) = ? ORDER BY key")
+    .all(prefix.length, prefix) as StoredItem[];
+}
+
+export function setStoredItem(key: string, value: string): void {
+  getDatabase()
+    .prepare(
+      `INSERT INTO storage (key, value, updated_at) VALUES (?, ?, ?)
+       ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at`
+    )
+    .run(key, value, new Date().toISOString());
+}
+
+export function removeStoredItem(key: string): void {
+  getDatabase().prepare("DELETE FROM storage WHERE key = ?").run(key);
+}
@@ -0,0 +1,78 @@
+// Files attached in the chat are written under this directory of the sandbox's working directory
+export const UPLOAD_DIR = "uploads";
+
+export const MAX_UPLOAD_FILE_BYTES = 10 * 1024 * 1024;
+export const MAX_UPLOAD_TOTAL_BYTES = 50 * 1024 * 1024;
+export const MAX_UPLOAD_FILES = 200;
+
+// Browsers report an empty type for extensions they don't know, e.g. most source files
+const ALLOWED_MEDIA_TYPES = new Set([
+  "",
+  "application/json",
+  "application/pdf",
+  "application/xml",
+  "application/yaml",
+  "application/x-yaml",
+  "application/javascript",
+  "application/typescript",
+  "application/x-sh",
+  "application/sql",
+  "application/zip",
+  "application/gzip",
+  "application/x-tar",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+]);
+
+export interface UploadedFile {
+  // Relative to the sandbox's working directory
+  path: string;
+  size: number;
+  mediaType: string;
+}
+
+export function isAllowedUploadType(mediaType: string): boolean {
+  return mediaType.startsWith("text/") || mediaType.startsWith("image/") || ALLOWED_MEDIA_TYPES.has(mediaType);
+}
+
+// Clean a file's relative path (folders keep their structure), or null if it would escape the upload directory
+export function normalizeUploadPath(name: string): string | null {
+  const segments = name.replace(/\\/g, "/").split("/").filter((segment) => segment && segment !== ".");
+  if (segments.length === 0 || segments.includes("..")) return null;
+  return segments.join("/");
+}
+
+// Check a batch of files before uploading; returns the first problem found
+export function validateUploads(files: { name: string; size: number; type: string }[]): string | null {
+  if (files.length > MAX_UPLOAD_FILES) {
+    return `Upload at most ${MAX_UPLOAD_FILES} files at a time`;
+  }
+  let totalBytes = 0;
+  for (const file of files) {
+    if (!normalizeUploadPath(file.name)) {
+      return `Invalid file name: ${file.name}`;
+    }
+    if (!isAllowedUploadType(file.type)) {
+      return `${file.name} has an unsupported file type (${file.type})`;
+    }
+    if (file.size > MAX_UPLOAD_FILE_BYTES) {
+      return `${file.name} is larger than ${MAX_UPLOAD_FILE_BYTES / 1024 / 1024} MB`;
+    }
+    totalBytes += file.size;
+  }
+  if (totalBytes > MAX_UPLOAD_TOTAL_BYTES) {
+    return `Uploads are limited to ${MAX_UPLOAD_TOTAL_BYTES / 1024 / 1024} MB at a time`;
+  }
+  return null;
+}
+
+// Tells the agent where the attached files are, appended to the user's prompt
+export function describeUploads(files: UploadedFile[]): string {
+  if (files.length === 0) return "";
+  return [
+    "",
+    "",
+    "Attached files (relative to the current working directory):",
+    ...files.map((file) => `- ${file.path}`),
+  ].join("\n");
+}
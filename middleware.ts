@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import type { NextRequest } from "next/server";
+import { STORAGE_MODE } from "@/lib/constants";
+import { STORAGE_AUTH_REALM, getStorageCredentials, hasStorageCredentials } from "@/lib/storage-auth";
+
+// With server storage the pages ask for the credentials too, so the browser prompts once
+// and then sends them along with the storage requests the pages make
+export function middleware(request: NextRequest) {
+  const credentials = getStorageCredentials();
+  if (STORAGE_MODE !== "server" || !credentials || hasStorageCredentials(request, credentials)) {
+    return NextResponse.next();
+  }
+  return new NextResponse("Authentication required", {
+    status: 401,
+    headers: { "WWW-Authenticate": `Basic realm="${STORAGE_AUTH_REALM}", charset="UTF-8"` },
+  });
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};